@@ -0,0 +1,106 @@
+import type { DayEntry } from '../src/types';
+import { addDayHours, getHoursBetweenDates, isValidDateRange, setDayHours, setDayNote } from '../src/lib/entries';
+import { getCurrentStreak, getLongestStreak } from '../src/lib/analytics';
+import { DateKey, daysBetween, isDateKey } from '../src/lib/dates';
+import { MAX_DAILY_HOURS, roundHours } from '../src/lib/sessions';
+import { toCsv, toJson } from '../src/lib/transfer';
+import { validateAndClampHours } from '../src/lib/validation';
+
+export interface LogOptions {
+  hours: number;
+  date: DateKey;
+  // Replaces the day's total instead of adding to it
+  set: boolean;
+  // Replaces the day's markdown note when given
+  note?: string;
+}
+
+export interface DateRange {
+  start: DateKey;
+  end: DateKey;
+}
+
+export const USAGE = `Usage: didyoucode <command> [options]
+
+Commands:
+  log <hours> [--date YYYY-MM-DD] [--set] [--note TEXT]
+                                            Add hours to a day (today by default); --set replaces its total
+                                            and --note replaces its note
+  stats [--range START..END | --year YYYY]  Totals for a date range (this year so far by default)
+  export [--csv | --json] [--out FILE]      Print or save every entry
+
+Options:
+  --file PATH   Data file, $DIDYOUCODE_FILE or ~/.didyoucode.json by default
+  --help        Show this message`;
+
+const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+export const parseHours = (value: string | undefined): number => {
+  const hours = value === undefined ? NaN : Number(value);
+  if (value === undefined || value.trim() === '' || isNaN(hours)) {
+    throw new Error('Please enter a valid number of hours');
+  }
+  return hours;
+};
+
+export const parseDate = (value: string): DateKey => {
+  if (!isDateKey(value)) {
+    throw new Error(`"${value}" is not a date. Use YYYY-MM-DD.`);
+  }
+  return value;
+};
+
+// Accepts "START..END" or a single day
+export const parseRange = (value: string): DateRange => {
+  const [start, end = start] = value.split('..');
+  const range = { start: parseDate(start), end: parseDate(end) };
+  if (range.start > range.end) {
+    throw new Error('The range has to start before it ends');
+  }
+  if (!isValidDateRange(range.start, range.end)) {
+    throw new Error('Date range cannot exceed one year');
+  }
+  return range;
+};
+
+// Uses the same rules as manual entry and quick add in the app
+export const logHours = (entries: DayEntry[], { hours, date, set, note }: LogOptions, today: DateKey) => {
+  // A total may be set to 0, but an amount to add has to come to at least half an hour
+  if (!set && (hours > MAX_DAILY_HOURS || validateAndClampHours(hours) === 0)) {
+    throw new Error('Hours must be between 0 and 24');
+  }
+  const result = set ? setDayHours(entries, date, hours, today) : addDayHours(entries, date, hours, today);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  const noted = note === undefined ? result : setDayNote(result.entries, date, note, today);
+  if (!noted.ok) {
+    throw new Error(noted.error);
+  }
+  const day = noted.entries.find(entry => entry.date === date);
+  return {
+    entries: noted.entries,
+    message: `${date}: ${day?.hours ?? 0}h logged${day?.note ? ' with a note' : ''}`
+  };
+};
+
+export const formatStats = (entries: DayEntry[], { start, end }: DateRange, today: DateKey): string => {
+  const inRange = entries.filter(entry => entry.date >= start && entry.date <= end && entry.hours > 0);
+  const total = getHoursBetweenDates(entries, start, end);
+  const lastDay = end < today ? end : today;
+  const elapsedDays = Math.max(0, daysBetween(start, lastDay) + 1);
+  const bestDay = inRange.reduce<DayEntry | null>((best, entry) => (!best || entry.hours > best.hours ? entry : best), null);
+
+  return [
+    `${start} to ${end}`,
+    `Total hours:       ${total}h`,
+    `Days logged:       ${inRange.length} of ${formatDays(elapsedDays)}`,
+    `Average per day:   ${inRange.length > 0 ? roundHours(total / inRange.length) : 0}h on days logged`,
+    `Best day:          ${bestDay ? `${bestDay.date} (${bestDay.hours}h)` : '-'}`,
+    `Current streak:    ${formatDays(getCurrentStreak(entries, today))}`,
+    `Longest streak:    ${formatDays(getLongestStreak(entries))} (all time)`
+  ].join('\n');
+};
+
+export const exportEntries = (entries: DayEntry[], format: 'json' | 'csv'): string =>
+  format === 'csv' ? toCsv(entries) : `${toJson(entries)}\n`;
@@ -0,0 +1,29 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { DayEntry } from '../src/types';
+import { ParsedImport, parseJson, toJson } from '../src/lib/transfer';
+
+// The file is a regular JSON export, so the web app can import it as it is
+export const DEFAULT_DATA_FILE = join(homedir(), '.didyoucode.json');
+
+export const resolveDataFile = (file?: string): string => file ?? process.env.DIDYOUCODE_FILE ?? DEFAULT_DATA_FILE;
+
+// A missing file reads as no entries, so the first `log` creates it
+export const readEntries = async (path: string): Promise<ParsedImport> => {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { entries: [], errors: [] };
+    throw err;
+  }
+  return parseJson(text);
+};
+
+// Written through a temporary file so a crash can't leave it half written
+export const writeEntries = async (path: string, entries: DayEntry[]): Promise<void> => {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(`${path}.tmp`, `${toJson(entries)}\n`);
+  await rename(`${path}.tmp`, path);
+};
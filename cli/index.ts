@@ -0,0 +1,83 @@
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { getToday } from '../src/lib/dates';
+import { USAGE, exportEntries, formatStats, logHours, parseDate, parseHours, parseRange } from './commands';
+import { readEntries, resolveDataFile, writeEntries } from './dataFile';
+
+const run = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      file: { type: 'string' },
+      date: { type: 'string' },
+      set: { type: 'boolean', default: false },
+      note: { type: 'string' },
+      range: { type: 'string' },
+      year: { type: 'string' },
+      csv: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const today = getToday();
+  const path = resolveDataFile(values.file);
+  const { entries, errors } = await readEntries(path);
+  errors.forEach(error => console.error(`${path}: ${error}`));
+
+  switch (command) {
+    case 'log': {
+      // Writing back would lose the entries that couldn't be read
+      if (errors.length > 0) {
+        throw new Error(`Fix or remove the entries above in ${path} first`);
+      }
+      const result = logHours(entries, {
+        hours: parseHours(args[0]),
+        date: values.date ? parseDate(values.date) : today,
+        set: values.set,
+        note: values.note
+      }, today);
+      await writeEntries(path, result.entries);
+      console.log(result.message);
+      return;
+    }
+    case 'stats': {
+      if (values.year && !/^\d{4}$/.test(values.year)) {
+        throw new Error(`"${values.year}" is not a year`);
+      }
+      const range = values.range
+        ? parseRange(values.range)
+        : parseRange(values.year ? `${values.year}-01-01..${values.year}-12-31` : `${today.slice(0, 4)}-01-01..${today}`);
+      console.log(formatStats(entries, range, today));
+      return;
+    }
+    case 'export': {
+      if (values.csv && values.json) {
+        throw new Error('Pick either --csv or --json');
+      }
+      const output = exportEntries(entries, values.csv ? 'csv' : 'json');
+      if (values.out) {
+        await writeFile(values.out, output);
+        console.log(`Exported ${entries.length} ${entries.length === 1 ? 'day' : 'days'} to ${values.out}`);
+      } else {
+        process.stdout.write(output);
+      }
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+run(process.argv.slice(2)).catch((err: Error) => {
+  console.error(`didyoucode: ${err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DayEntry } from '../src/types';
+import type { SyncedDay } from '../src/lib/sync';
+import { createMemoryBackend } from '../src/lib/storage/backends';
+import { createSyncClient } from '../src/lib/storage/sync';
+import { createSyncServer } from './app';
+import { createMemoryStore } from './store';
+
+const TOKEN = 'secret';
+
+let server: Server;
+let url: string;
+
+beforeEach(async () => {
+  server = createSyncServer({ token: TOKEN, store: createMemoryStore() });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const put = (days: SyncedDay[], token = TOKEN) =>
+  fetch(`${url}/entries`, {
+    method: 'PUT',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ days })
+  });
+
+const putDays = async (days: SyncedDay[]): Promise<SyncedDay[]> => (await (await put(days)).json()).days;
+
+describe('createSyncServer', () => {
+  it('rejects requests without the right token', async () => {
+    expect((await fetch(`${url}/entries`)).status).toBe(401);
+    expect((await fetch(`${url}/entries`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    expect((await put([], 'wrong')).status).toBe(401);
+    expect((await fetch(`${url}/entries`, { headers: { Authorization: `Bearer ${TOKEN}` } })).status).toBe(200);
+  });
+
+  it('keeps the newest copy of each day', async () => {
+    await putDays([
+      { date: '2026-10-18', entry: { date: '2026-10-18', hours: 2 }, updatedAt: 100 },
+      { date: '2026-10-19', entry: { date: '2026-10-19', hours: 1 }, updatedAt: 100 }
+    ]);
+    expect(await putDays([
+      { date: '2026-10-18', entry: { date: '2026-10-18', hours: 5 }, updatedAt: 50 },
+      { date: '2026-10-19', entry: { date: '2026-10-19', hours: 3 }, updatedAt: 150 }
+    ])).toEqual([
+      { date: '2026-10-18', entry: { date: '2026-10-18', hours: 2 }, updatedAt: 100 },
+      { date: '2026-10-19', entry: { date: '2026-10-19', hours: 3 }, updatedAt: 150 }
+    ]);
+  });
+
+  it('lets a newer deletion win over an older copy and stay deleted', async () => {
+    await putDays([{ date: '2026-10-18', entry: { date: '2026-10-18', hours: 2 }, updatedAt: 100 }]);
+    await putDays([{ date: '2026-10-18', entry: null, updatedAt: 200 }]);
+    expect(await putDays([{ date: '2026-10-18', entry: { date: '2026-10-18', hours: 4 }, updatedAt: 150 }])).toEqual([
+      { date: '2026-10-18', entry: null, updatedAt: 200 }
+    ]);
+  });
+});
+
+describe('createSyncClient', () => {
+  const day = (date: string, hours: number): DayEntry => ({ date, hours });
+
+  it('keeps edits pending while offline and sends them once back online', async () => {
+    let online = false;
+    const request: typeof fetch = (input, init) =>
+      online ? fetch(input, init) : Promise.reject(new TypeError('Failed to fetch'));
+    const client = createSyncClient(createMemoryBackend(), request, () => 1000);
+    const settings = { enabled: true, url, token: TOKEN };
+    const entries = [day('2026-10-19', 2)];
+
+    await client.track([], entries);
+    await expect(client.sync(settings, () => entries)).rejects.toThrow('Sync server is unreachable');
+    expect(await client.getStatus()).toEqual({ pending: 1, lastSyncedAt: null });
+
+    online = true;
+    await client.sync(settings, () => entries);
+    expect(await client.getStatus()).toEqual({ pending: 0, lastSyncedAt: 1000 });
+    expect(await putDays([])).toEqual([{ date: '2026-10-19', entry: day('2026-10-19', 2), updatedAt: 1000 }]);
+  });
+
+  it('applies days changed on other devices', async () => {
+    await putDays([{ date: '2026-10-18', entry: day('2026-10-18', 3), updatedAt: 500 }]);
+    const client = createSyncClient(createMemoryBackend(), (input, init) => fetch(input, init));
+
+    const result = await client.sync({ enabled: true, url, token: TOKEN }, () => [day('2026-10-19', 1)]);
+    expect(result.pulled).toBe(1);
+    expect(result.entries).toEqual(expect.arrayContaining([day('2026-10-18', 3), day('2026-10-19', 1)]));
+    expect(result.entries).toHaveLength(2);
+  });
+
+  it('keeps edits pending when the server rejects the token', async () => {
+    const client = createSyncClient(createMemoryBackend(), (input, init) => fetch(input, init));
+    const entries = [day('2026-10-19', 2)];
+
+    await client.track([], entries);
+    await expect(client.sync({ enabled: true, url, token: 'wrong' }, () => entries)).rejects.toThrow(
+      'The sync server rejected the token'
+    );
+    expect((await client.getStatus()).pending).toBe(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { parseSyncPayload } from '../src/lib/sync';
+import type { DayStore } from './store';
+
+export interface SyncServerOptions {
+  // Clients must send this as "Authorization: Bearer <token>"
+  token: string;
+  store: DayStore;
+  // Value of Access-Control-Allow-Origin; the app usually runs on another origin
+  allowedOrigin?: string;
+}
+
+export const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+// Resolves null when the body is larger than MAX_BODY_BYTES
+const readBody = (request: IncomingMessage): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        resolve(null);
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+
+/**
+ * Serves GET and PUT /entries. PUT merges the sent days with last-write-wins
+ * per day; both return every stored day so a client can catch up in one trip.
+ */
+export const createSyncServer = ({ token, store, allowedOrigin = '*' }: SyncServerOptions): Server => {
+  const expected = digest(token);
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+  };
+
+  // Hashing first gives equal-length buffers, so the comparison takes the same time for any token
+  const isAuthorized = (request: IncomingMessage) => {
+    const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? '');
+    return !!match && timingSafeEqual(digest(match[1]), expected);
+  };
+
+  const send = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+  return createServer(async (request, response) => {
+    try {
+      if (request.method === 'OPTIONS') {
+        response.writeHead(204, corsHeaders);
+        response.end();
+        return;
+      }
+
+      const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+      if (pathname !== '/entries') {
+        send(response, 404, { error: 'Not found' });
+        return;
+      }
+      if (!isAuthorized(request)) {
+        send(response, 401, { error: 'Missing or invalid token' });
+        return;
+      }
+
+      if (request.method === 'GET') {
+        send(response, 200, { days: await store.list() });
+        return;
+      }
+      if (request.method !== 'PUT') {
+        response.setHeader('Allow', 'GET, PUT, OPTIONS');
+        send(response, 405, { error: 'Method not allowed' });
+        return;
+      }
+
+      const body = await readBody(request);
+      if (body === null) {
+        send(response, 413, { error: 'Request body is too large' });
+        return;
+      }
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        send(response, 400, { error: 'Request body is not valid JSON' });
+        return;
+      }
+      const payload = parseSyncPayload(parsed);
+      if (!payload) {
+        send(response, 400, { error: 'Expected a body of the form { "days": [...] }' });
+        return;
+      }
+      // Rejecting the whole request keeps the client's copy pending instead of losing days silently
+      if (payload.dropped > 0) {
+        send(response, 400, { error: `${payload.dropped} invalid ${payload.dropped === 1 ? 'day' : 'days'} in request` });
+        return;
+      }
+
+      send(response, 200, { days: await store.merge(payload.days) });
+    } catch (err) {
+      console.error('Sync request failed:', err);
+      send(response, 500, { error: 'Internal server error' });
+    }
+  });
+};
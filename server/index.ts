@@ -0,0 +1,16 @@
+import { createSyncServer } from './app';
+import { createFileStore } from './store';
+
+const token = process.env.SYNC_TOKEN;
+if (!token) {
+  console.error('Set SYNC_TOKEN to the token clients have to send.');
+  process.exit(1);
+}
+
+const port = Number(process.env.PORT ?? 8787);
+const dataFile = process.env.SYNC_DATA_FILE ?? 'sync-data.json';
+
+const store = await createFileStore(dataFile);
+createSyncServer({ token, store, allowedOrigin: process.env.SYNC_ALLOWED_ORIGIN }).listen(port, () => {
+  console.log(`Sync server listening on http://localhost:${port}, storing days in ${dataFile}`);
+});
@@ -0,0 +1,58 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { SyncedDay, mergeSyncedDays, parseSyncPayload } from '../src/lib/sync';
+
+export interface DayStore {
+  list: () => Promise<SyncedDay[]>;
+  // Merges days in with last-write-wins and returns every stored day
+  merge: (days: SyncedDay[]) => Promise<SyncedDay[]>;
+}
+
+// Keeps days in memory only; meant for tests and throwaway servers
+export const createMemoryStore = (initial: SyncedDay[] = []): DayStore => {
+  let days = mergeSyncedDays([], initial);
+  return {
+    list: async () => days,
+    merge: async incoming => {
+      days = mergeSyncedDays(days, incoming);
+      return days;
+    }
+  };
+};
+
+/**
+ * Keeps days in memory and writes them to a JSON file after every merge.
+ * Writes go through a temporary file so a crash can't leave it half written.
+ */
+export const createFileStore = async (path: string): Promise<DayStore> => {
+  let days: SyncedDay[] = [];
+  try {
+    const parsed = parseSyncPayload(JSON.parse(await readFile(path, 'utf8')));
+    if (!parsed) {
+      throw new Error(`${path} is not a sync data file`);
+    }
+    days = parsed.days;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+  }
+
+  // Writes run one at a time so an older snapshot never lands after a newer one
+  let writing = Promise.resolve();
+  const persist = (snapshot: SyncedDay[]) => {
+    writing = writing.then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(`${path}.tmp`, JSON.stringify({ days: snapshot }));
+      await rename(`${path}.tmp`, path);
+    });
+    return writing;
+  };
+
+  return {
+    list: async () => days,
+    merge: async incoming => {
+      days = mergeSyncedDays(days, incoming);
+      await persist(days);
+      return days;
+    }
+  };
+};
@@ -1,37 +1,149 @@
-import React, { useState, useEffect, MouseEvent } from 'react';
-import { Calendar, Clock, Plus, Minus, ChevronLeft, ChevronRight, Trash2, Share2 } from 'lucide-react';
-import { toPng } from 'html-to-image';
-
-interface DayEntry {
-  date: string;
-  hours: number;
-}
-
-interface CalendarDay {
-  date: Date;
-  isCurrentMonth: boolean;
-}
+import { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { DayEntry } from './types';
+import type { DaySession } from './lib/timer';
+import { isValidDate, validateAndClampHours } from './lib/validation';
+import {
+  addDayHours,
+  addSession,
+  addTimerSessions,
+  deleteDay,
+  deleteSession,
+  getDayHours,
+  getHoursBetweenDates,
+  isValidDateRange,
+  removeUntimedHours,
+  setDayHours,
+  setDayNote
+} from './lib/entries';
+import { getLoggableDates } from './lib/calendar';
+import { getMonth, getToday, getYear } from './lib/dates';
+import StatsHeader from './components/StatsHeader';
+import CalendarGrid from './components/CalendarGrid';
+import QuickAdd from './components/QuickAdd';
+import ManualEntry from './components/ManualEntry';
+import EntryHistory from './components/EntryHistory';
+import NoteDialog from './components/NoteDialog';
+import RangeStats from './components/RangeStats';
+import DataTransfer from './components/DataTransfer';
+import GitLogImport from './components/GitLogImport';
+import PwaControls from './components/PwaControls';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import YearHeatmap from './components/YearHeatmap';
+import WeekView from './components/WeekView';
+import { formatDay, formatHours, getMonthNames, getWeekdayNames } from './lib/locale';
+import { getIsoWeek, getIsoWeekStart, getWeekSummary, shiftWeek } from './lib/weeks';
+import { getAnalytics } from './lib/analytics';
+import GoalsPanel from './components/GoalsPanel';
+import ProjectsPanel from './components/ProjectsPanel';
+import ReminderSettings from './components/ReminderSettings';
+import DisplaySettings from './components/DisplaySettings';
+import SyncSettings from './components/SyncSettings';
+import ShareSection from './components/ShareSection';
+import {
+  Goal,
+  getGoalHitRate,
+  getGoalProgress,
+  setGoal
+} from './lib/goals';
+import { createSessionStorageBackend, repository } from './lib/storage';
+import { AppSettings, DEFAULT_SETTINGS } from './lib/settings';
+import {
+  Project,
+  getNextProjectColor,
+  getProjectHours,
+  getProjectTotals,
+  retagSessions
+} from './lib/projects';
+import {
+  EMPTY_HISTORY,
+  HISTORY_STORAGE_KEY,
+  HistoryState,
+  applyChanges,
+  diffEntries,
+  parseHistory,
+  pushAction
+} from './lib/history';
+import {
+  EMPTY_SESSION_DRAFT,
+  SessionDraft,
+  createSession,
+  getSessionHours,
+  roundHours
+} from './lib/sessions';
+import { useSync } from './hooks/useSync';
+import { useReminders } from './hooks/useReminders';
+
+// Undo history only needs to survive a reload, not outlive the tab
+const historyBackend = createSessionStorageBackend();
+
+// The first year the tracker shipped, used as the lower bound of the year selector
+const FIRST_TRACKED_YEAR = 2025;
 
 function App() {
-  const [entries, setEntries] = useState<DayEntry[]>(() => {
-    const saved = localStorage.getItem('codingHours2025');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [selectedDate, setSelectedDate] = useState<string>(() => {
+  const [entries, setEntries] = useState<DayEntry[]>([]);
+  const [selectedDate, setSelectedDate] = useState<string>(getToday);
+  const [sessionDraft, setSessionDraft] = useState<SessionDraft>(EMPTY_SESSION_DRAFT);
+  // The day whose note is open for editing
+  const [noteDate, setNoteDate] = useState<string | null>(null);
+  const [currentMonth, setCurrentMonth] = useState(() => {
     const today = new Date();
-    const startDate = new Date('2025-01-01T00:00:00.000Z');
-    return today >= startDate ? today.toISOString().split('T')[0] : '2025-01-01';
+    return new Date(today.getFullYear(), today.getMonth(), 1);
   });
-  const [hours, setHours] = useState<string>('');
-  const [currentMonth, setCurrentMonth] = useState(new Date(2025, 0, 1));
-  const [showDatePicker, setShowDatePicker] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<{ start: string | null; end: string | null }>({ start: null, end: null });
-  const [alert, setAlert] = useState<{ message: string; type: 'success' | 'info' } | null>(null);
+  const [alert, setAlert] = useState<{ message: string; type: 'success' | 'info'; undoable?: boolean } | null>(null);
+  const [calendarView, setCalendarView] = useState<'month' | 'week' | 'year'>('month');
+  // Monday of the week shown in the week view
+  const [shownWeek, setShownWeek] = useState<string>(() => getIsoWeekStart(getToday()));
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  // Limits the calendar to one project's hours; null shows every hour
+  const [projectFilter, setProjectFilter] = useState<string | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // Nothing is written back until the stored data has been read, so a failed load can't wipe it
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
 
   useEffect(() => {
-    localStorage.setItem('codingHours2025', JSON.stringify(entries));
-  }, [entries]);
+    repository.load()
+      .then(({ data, warnings }) => {
+        setEntries(data.entries);
+        setGoals(data.goals);
+        setProjects(data.projects);
+        setSettings(data.settings);
+        setIsLoaded(true);
+        if (warnings.length > 0) {
+          setError(warnings.join(' '));
+        }
+      })
+      .catch(err => {
+        console.error('Loading saved data failed:', err);
+        setError('Failed to load your saved hours. Changes will not be saved.');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    repository.save({ entries, goals, projects, settings }).catch(err => {
+      console.error('Saving data failed:', err);
+      setError('Failed to save your hours. Please try again.');
+    });
+  }, [entries, goals, projects, settings, isLoaded]);
+
+  useEffect(() => {
+    historyBackend.read(HISTORY_STORAGE_KEY)
+      .then(raw => setHistory(parseHistory(raw)))
+      .catch(err => console.error('Loading undo history failed:', err))
+      .finally(() => setIsHistoryLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    historyBackend.write(HISTORY_STORAGE_KEY, JSON.stringify(history))
+      .catch(err => console.error('Saving undo history failed:', err));
+  }, [history, isHistoryLoaded]);
 
   useEffect(() => {
     if (error) {
@@ -47,226 +159,291 @@ function App() {
     }
   }, [alert]);
 
-  const totalHours = entries.reduce((sum: number, entry: DayEntry) => sum + entry.hours, 0);
+  const selectedYear = currentMonth.getFullYear();
+  const thisYear = new Date().getFullYear();
 
-  const monthlyHours = entries.reduce((acc: Record<number, number>, entry: DayEntry) => {
-    const month = new Date(entry.date).getMonth();
-    acc[month] = (acc[month] || 0) + entry.hours;
-    return acc;
-  }, {} as Record<number, number>);
+  const yearEntries = entries.filter((entry: DayEntry) => entry.date.startsWith(`${selectedYear}-`));
 
-  const isValidDate = (date: Date): boolean => {
-    if (!(date instanceof Date) || isNaN(date.getTime())) {
-      return false;
+  const availableYears = (() => {
+    const firstYear = entries.reduce(
+      (min: number, entry: DayEntry) => Math.min(min, parseInt(entry.date.slice(0, 4), 10)),
+      Math.min(FIRST_TRACKED_YEAR, selectedYear)
+    );
+    const years = [];
+    for (let year = thisYear; year >= firstYear; year--) {
+      years.push(year);
     }
+    return years;
+  })();
 
-    const dateToCheck = new Date(date);
-    dateToCheck.setUTCHours(12, 0, 0, 0);
-    
-    const today = new Date();
-    today.setUTCHours(23, 59, 59, 999);
-    
-    const startDate = new Date('2025-01-01T12:00:00.000Z');
-    const endDate = new Date('2025-12-31T23:59:59.999Z');
-    
-    return dateToCheck >= startDate && dateToCheck <= endDate && dateToCheck <= today;
-  };
+  const totalHours = yearEntries.reduce((sum: number, entry: DayEntry) => sum + entry.hours, 0);
 
-  const validateAndClampHours = (hours: number): number => {
-    return Math.min(Math.max(0, Math.round(hours * 2) / 2), 24);
+  // Hours in the month the calendar is showing
+  const getCurrentMonthHours = (): number => {
+    const displayedMonth = currentMonth.getMonth();
+    return yearEntries.reduce((sum, entry) => {
+      return getMonth(entry.date) === displayedMonth ? sum + entry.hours : sum;
+    }, 0);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    const hoursNum = parseFloat(hours);
-    
-    if (isNaN(hoursNum)) {
-      setError('Please enter a valid number of hours');
-      return;
+  const todayStr = getToday();
+  const analytics = getAnalytics(entries, selectedYear, todayStr);
+  const goalProgress = getGoalProgress(goals, entries, selectedYear, todayStr);
+  const goalHitRate = getGoalHitRate(goals, entries, selectedYear, todayStr);
+
+  // Every user edit goes through here so it can be undone, with the project list when it changes too
+  const updateEntries = (newEntries: DayEntry[], label: string, newProjects?: Project[]) => {
+    const changes = diffEntries(entries, newEntries);
+    if (changes.length === 0 && !newProjects) return;
+    setEntries(newEntries);
+    if (newProjects) {
+      setProjects(newProjects);
     }
+    setHistory(pushAction(history, {
+      label,
+      changes,
+      ...(newProjects && { projects: { before: projects, after: newProjects } })
+    }));
+  };
 
-    const validatedHours = validateAndClampHours(hoursNum);
-    if (validatedHours === 0 && hoursNum !== 0) {
-      setError('Hours must be between 0 and 24');
+  const undo = () => {
+    const action = history.past[history.past.length - 1];
+    if (!action) {
+      setAlert({ message: 'Nothing to undo', type: 'info' });
       return;
     }
+    setEntries(applyChanges(entries, action.changes, 'undo'));
+    if (action.projects) {
+      setProjects(action.projects.before);
+    }
+    setHistory({ past: history.past.slice(0, -1), future: [action, ...history.future] });
+    setAlert({ message: `Undid: ${action.label}`, type: 'info' });
+  };
 
-    const selectedDateObj = new Date(selectedDate + 'T00:00:00.000Z');
-    
-    if (!isValidDate(selectedDateObj)) {
-      setError('Cannot add hours for future dates or dates outside 2025');
+  const redo = () => {
+    const [action, ...future] = history.future;
+    if (!action) {
+      setAlert({ message: 'Nothing to redo', type: 'info' });
       return;
     }
+    setEntries(applyChanges(entries, action.changes, 'redo'));
+    if (action.projects) {
+      setProjects(action.projects.after);
+    }
+    setHistory({ past: [...history.past, action], future });
+    setAlert({ message: `Redid: ${action.label}`, type: 'info' });
+  };
 
-    try {
-      const existingEntryIndex = entries.findIndex(entry => entry.date === selectedDate);
-      if (existingEntryIndex !== -1) {
-        const newEntries = [...entries];
-        newEntries[existingEntryIndex].hours = validatedHours;
-        setEntries(newEntries);
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Leave text fields to their native undo
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
       } else {
-        setEntries([...entries, { date: selectedDate, hours: validatedHours }]);
+        undo();
       }
-      setHours('');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const { status: syncStatus, syncNow } = useSync(entries, setEntries, settings.sync, isLoaded);
+
+  // Sets a day's total; returns whether it was logged so the form can be cleared
+  const logHours = (date: string, hoursNum: number): boolean => {
+    const result = setDayHours(entries, date, hoursNum);
+    if (!result.ok) {
+      setError(result.error);
+      return false;
+    }
+
+    const existingEntry = entries.find(entry => entry.date === date);
+    const validatedHours = validateAndClampHours(hoursNum);
+
+    try {
+      updateEntries(result.entries, existingEntry ? 'Set hours' : 'Add hours');
+      const dateLabel = formatDay(date, locale, { month: 'long', day: 'numeric' });
       setAlert({
-        message: `Logged ${validatedHours} hours for ${new Date(selectedDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`,
-        type: 'success'
+        message: existingEntry && existingEntry.hours !== validatedHours
+          ? `Changed ${dateLabel} from ${formatHours(existingEntry.hours, locale)} to ${formatHours(validatedHours, locale)} hours`
+          : `Logged ${formatHours(validatedHours, locale)} hours for ${dateLabel}`,
+        type: 'success',
+        undoable: true
       });
-    } catch (err) {
+      return true;
+    } catch {
       setError('Failed to save entry. Please try again.');
+      return false;
+    }
+  };
+
+  const logSession = () => {
+    const session = createSession(sessionDraft);
+    const result = addSession(entries, selectedDate, session);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+
+    try {
+      updateEntries(result.entries, 'Add session');
+      setSessionDraft({ ...sessionDraft, start: '', end: '', note: '' });
+      setAlert({
+        message: `Logged a ${formatHours(getSessionHours(session), locale)} hour session for ${formatDay(selectedDate, locale, { month: 'long', day: 'numeric' })}`,
+        type: 'success',
+        undoable: true
+      });
+    } catch {
+      setError('Failed to save session. Please try again.');
     }
   };
 
-  const deleteEntry = (date: string, hoursToDelete?: number) => {
+  // Returns whether the note was saved so the dialog can close
+  const saveNote = (date: string, note: string): boolean => {
+    const result = setDayNote(entries, date, note);
+    if (!result.ok) {
+      setError(result.error);
+      return false;
+    }
+
+    const hadNote = !!entries.find(entry => entry.date === date)?.note;
+    try {
+      updateEntries(result.entries, 'Edit note');
+      const dateLabel = formatDay(date, locale, { month: 'long', day: 'numeric' });
+      if (note.trim() || hadNote) {
+        setAlert({
+          message: note.trim() ? `Saved the note for ${dateLabel}` : `Removed the note for ${dateLabel}`,
+          type: 'success',
+          undoable: true
+        });
+      }
+      return true;
+    } catch {
+      setError('Failed to save note. Please try again.');
+      return false;
+    }
+  };
+
+  const deleteEntry = (date: string, sessionId?: string) => {
     try {
       const existingEntry = entries.find(entry => entry.date === date);
       if (!existingEntry) return;
 
-      if (hoursToDelete && hoursToDelete < existingEntry.hours) {
-        // Partial deletion
-        const newEntries = entries.map(entry => {
-          if (entry.date === date) {
-            return { ...entry, hours: entry.hours - hoursToDelete };
-          }
-          return entry;
-        });
-        setEntries(newEntries);
+      const session = existingEntry.sessions?.find(s => s.id === sessionId);
+      if (session) {
+        updateEntries(deleteSession(entries, date, session.id), 'Delete session');
         setAlert({
-          message: `Removed ${hoursToDelete} hours from ${new Date(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`,
-          type: 'success'
+          message: `Removed the ${session.start}–${session.end} session from ${formatDay(date, locale, { month: 'long', day: 'numeric' })}`,
+          type: 'success',
+          undoable: true
         });
       } else {
-        // Full deletion
-        setEntries(entries.filter(entry => entry.date !== date));
+        updateEntries(deleteDay(entries, date), 'Delete day');
         setAlert({
-          message: `Removed all hours for ${new Date(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`,
-          type: 'success'
+          message: `Removed all hours for ${formatDay(date, locale, { month: 'long', day: 'numeric' })}`,
+          type: 'success',
+          undoable: true
         });
       }
-    } catch (err) {
+    } catch {
       setError('Failed to delete entry. Please try again.');
     }
   };
 
-  const quickAdd = (amount: number) => {
-    const today = new Date();
-    const startDate = new Date('2025-01-01T00:00:00.000Z');
-    
-    if (today < startDate) {
-      setError('Cannot add hours before 2025');
-      return;
-    }
-    
+  const removeHours = (date: string, hoursToDelete: number): boolean => {
     try {
-      const todayStr = today.toISOString().split('T')[0];
-      const currentHours = entries.find((entry: DayEntry) => entry.date === todayStr)?.hours || 0;
-      const newHours = validateAndClampHours(currentHours + amount);
-
-      if (newHours === currentHours) {
-        if (amount > 0) {
-          setError('Cannot exceed 24 hours in a day');
-        } else if (amount < 0) {
-          setError('Hours cannot be negative');
-        }
-        return;
+      const result = removeUntimedHours(entries, date, hoursToDelete);
+      if (!result.ok) {
+        setError(result.error);
+        return false;
       }
 
-      const existingEntryIndex = entries.findIndex(entry => entry.date === todayStr);
-      if (existingEntryIndex !== -1) {
-        const newEntries = [...entries];
-        newEntries[existingEntryIndex].hours = newHours;
-        setEntries(newEntries);
-      } else {
-        setEntries([...entries, { date: todayStr, hours: newHours }]);
-      }
-    } catch (err) {
-      setError('Failed to save entry. Please try again.');
+      const removed = roundHours(getDayHours(entries, date) - getDayHours(result.entries, date));
+      if (removed === 0) return false;
+      updateEntries(result.entries, 'Remove hours');
+      setAlert({
+        message: `Removed ${formatHours(removed, locale)} hours from ${formatDay(date, locale, { month: 'long', day: 'numeric' })}`,
+        type: 'success',
+        undoable: true
+      });
+      return true;
+    } catch {
+      setError('Failed to delete entry. Please try again.');
+      return false;
     }
   };
 
-  const quickAddForDate = (date: string, hours: number) => {
-    const selectedDate = new Date(date);
-    selectedDate.setUTCHours(12, 0, 0, 0);
-    
-    if (!isValidDate(selectedDate)) {
-      setError('Cannot add hours for future dates or dates outside 2025');
+  // Adjusts the untimed hours of a day, keeping the day's total within 24 hours
+  const adjustUntimedHours = (date: string, amount: number) => {
+    const result = addDayHours(entries, date, amount);
+    if (!result.ok) {
+      setError(result.error);
       return;
     }
+    updateEntries(result.entries, amount > 0 ? 'Add hours' : 'Remove hours');
+  };
 
-    try {
-      const dateStr = formatDate(selectedDate);
-      const currentHours = entries.find((entry: DayEntry) => entry.date === dateStr)?.hours || 0;
-      const newHours = validateAndClampHours(currentHours + hours);
-
-      if (newHours === currentHours) {
-        if (hours > 0) {
-          setError('Cannot exceed 24 hours in a day');
-        } else if (hours < 0) {
-          setError('Hours cannot be negative');
-        }
-        return;
-      }
+  // Commits a stopped timer; sessions that crossed midnight arrive already split per day
+  const commitTimerSessions = (daySessions: DaySession[]): boolean => {
+    if (daySessions.length === 0) {
+      setAlert({ message: 'Timer stopped with less than a minute recorded', type: 'info' });
+      return true;
+    }
 
-      const existingEntryIndex = entries.findIndex(entry => entry.date === dateStr);
-      if (existingEntryIndex !== -1) {
-        const newEntries = [...entries];
-        newEntries[existingEntryIndex].hours = newHours;
-        setEntries(newEntries);
-      } else {
-        setEntries([...entries, { date: dateStr, hours: newHours }]);
-      }
-    } catch (err) {
+    const result = addTimerSessions(entries, daySessions);
+    if (!result.ok) {
+      setError(result.error);
+      return false;
+    }
+
+    try {
+      updateEntries(result.entries, 'Timer session');
+      const loggedHours = roundHours(daySessions.reduce((sum, { session }) => sum + getSessionHours(session), 0));
+      setAlert({ message: `Logged ${formatHours(loggedHours, locale)} hours from the timer`, type: 'success', undoable: true });
+      return true;
+    } catch {
       setError('Failed to save entry. Please try again.');
+      return false;
     }
   };
 
-  const monthNames = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-
-  const getDaysInMonth = (date: Date) => {
-    const year = date.getFullYear();
-    const month = date.getMonth();
-    
-    const firstDay = new Date(Date.UTC(year, month, 1, 12));
-    const lastDay = new Date(Date.UTC(year, month + 1, 0, 12));
-    const daysInMonth = lastDay.getDate();
-    const startingDay = firstDay.getDay();
-    
-    const previousMonth = new Date(Date.UTC(year, month, 0, 12));
-    const daysInPreviousMonth = previousMonth.getDate();
-    
-    const days = [];
-    
-    // Previous month days
-    for (let i = startingDay - 1; i >= 0; i--) {
-      days.push({
-        date: new Date(Date.UTC(year, month - 1, daysInPreviousMonth - i, 12)),
-        isCurrentMonth: false
-      });
+  const quickAdd = (amount: number) => {
+    try {
+      adjustUntimedHours(getToday(), amount);
+    } catch {
+      setError('Failed to save entry. Please try again.');
     }
-    
-    // Current month days
-    for (let i = 1; i <= daysInMonth; i++) {
-      days.push({
-        date: new Date(Date.UTC(year, month, i, 12)),
-        isCurrentMonth: true
-      });
+  };
+
+  const quickAddForDate = (date: string, hours: number) => {
+    if (!isValidDate(date)) {
+      setError('Cannot add hours for future dates');
+      return;
     }
-    
-    // Next month days
-    const remainingDays = 42 - days.length;
-    for (let i = 1; i <= remainingDays; i++) {
-      days.push({
-        date: new Date(Date.UTC(year, month + 1, i, 12)),
-        isCurrentMonth: false
-      });
+
+    try {
+      adjustUntimedHours(date, hours);
+    } catch {
+      setError('Failed to save entry. Please try again.');
     }
-    
-    return days;
   };
 
+  const { pendingQuickAdd, confirmQuickAdd, dismissQuickAdd } = useReminders(
+    settings.reminders,
+    isLoaded,
+    () => getDayHours(entries, getToday()) > 0,
+    quickAddForDate
+  );
+
+  const { locale, weekStart } = settings;
+  const monthNames = getMonthNames(locale);
+  const weekdayNames = getWeekdayNames(locale, weekStart);
+
   const navigateMonth = (direction: 'prev' | 'next') => {
     setCurrentMonth((prevMonth: Date) => {
       const newMonth = new Date(prevMonth);
@@ -279,743 +456,510 @@ function App() {
     });
   };
 
-  const formatDate = (date: Date) => {
-    const d = new Date(date);
-    d.setUTCHours(12, 0, 0, 0);
-    return d.toISOString().split('T')[0];
+  const navigateWeek = (direction: 'prev' | 'next') => {
+    const newShownWeek = shiftWeek(shownWeek, direction === 'prev' ? -1 : 1);
+    const [year, month] = newShownWeek.split('-').map(Number);
+    setShownWeek(newShownWeek);
+    setCurrentMonth(new Date(year, month - 1, 1));
   };
 
-  const getHoursForDate = (date: string) => {
-    return entries.find((entry: DayEntry) => entry.date === date)?.hours || 0;
+  const navigate = (direction: 'prev' | 'next') => {
+    if (calendarView === 'year') {
+      selectYear(selectedYear + (direction === 'prev' ? -1 : 1));
+    } else if (calendarView === 'week') {
+      navigateWeek(direction);
+    } else {
+      navigateMonth(direction);
+    }
   };
 
-  const handleQuickHourSelect = (dateStr: string, hours: number) => {
-    const date = new Date(dateStr);
-    date.setUTCHours(12, 0, 0, 0);
-    quickAddForDate(formatDate(date), hours);
+  const getHoursForDate = (date: string) => getDayHours(entries, date);
+
+  // What the calendar shows: every entry, or only the filtered project's share of each day
+  const calendarEntries = projectFilter
+    ? entries.map(entry => ({ date: entry.date, hours: getProjectHours(entry, projectFilter) }))
+    : entries;
+
+  const getCalendarHours = (date: string) =>
+    calendarEntries.find(entry => entry.date === date)?.hours || 0;
+
+  const addProject = (name: string) => {
+    if (projects.some(project => project.name === name)) {
+      setError(`A project named "${name}" already exists`);
+      return;
+    }
+    setProjects([...projects, { name, color: getNextProjectColor(projects) }]);
   };
 
-  const getPastDates = () => {
-    const dates = [];
-    const today = new Date();
-    today.setHours(23, 59, 59, 999);
-    const startDate = new Date('2025-01-01T00:00:00.000Z');
-    const endDate = new Date('2025-12-31T23:59:59.999Z');
-    
-    // If we're before 2025, show all available dates up to today
-    const currentDate = new Date(startDate);
-    const endDateToUse = today > endDate ? endDate : today;
+  const changeProject = (name: string, project: Project) => {
+    if (!project.name) {
+      setError('Project name cannot be empty');
+      return;
+    }
+    if (project.name !== name && projects.some(p => p.name === project.name)) {
+      setError(`A project named "${project.name}" already exists`);
+      return;
+    }
+
+    const newProjects = projects.map(p => p.name === name ? project : p);
+    // The colour picker reports every step of a drag, so a recolour alone isn't kept in undo history
+    if (project.name === name) {
+      setProjects(newProjects);
+    } else {
+      updateEntries(retagSessions(entries, name, project.name), 'Rename project', newProjects);
+      if (projectFilter === name) {
+        setProjectFilter(project.name);
+      }
+      if (sessionDraft.project === name) {
+        setSessionDraft({ ...sessionDraft, project: project.name });
+      }
+    }
+  };
 
-    while (currentDate <= endDateToUse) {
-      dates.push(new Date(currentDate));
-      currentDate.setDate(currentDate.getDate() + 1);
+  // Sessions of a deleted project are kept but count as unassigned
+  const deleteProject = (name: string) => {
+    updateEntries(retagSessions(entries, name), 'Delete project', projects.filter(project => project.name !== name));
+    if (projectFilter === name) {
+      setProjectFilter(null);
+    }
+    if (sessionDraft.project === name) {
+      setSessionDraft({ ...sessionDraft, project: '' });
     }
+    setAlert({ message: `Deleted project "${name}"`, type: 'info', undoable: true });
+  };
+
+  const projectTotalsRange = dateRange.start && dateRange.end
+    ? { start: dateRange.start, end: dateRange.end }
+    : { start: `${selectedYear}-01-01`, end: `${selectedYear}-12-31` };
+
+  const isPastDate = (date: string) => isValidDate(date);
 
-    return dates.reverse();
+  // Opens the month containing a heatmap cell with that day selected for manual entry
+  const jumpToDate = (date: string) => {
+    const [year, month] = date.split('-').map(Number);
+    setCurrentMonth(new Date(year, month - 1, 1));
+    setSelectedDate(date);
+    setCalendarView('month');
   };
 
-  const validateDateRange = (start: string, end: string): boolean => {
-    const startDate = new Date(start);
-    const endDate = new Date(end);
-    const maxRangeDays = 365; // Maximum range of one year
-    
-    const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
-    return diffDays <= maxRangeDays;
+  const selectYear = (year: number) => {
+    const today = getToday();
+    if (year === getYear(today)) {
+      setCurrentMonth(new Date(year, getMonth(today), 1));
+      setSelectedDate(today);
+      setShownWeek(getIsoWeekStart(today));
+    } else {
+      setCurrentMonth(new Date(year, 0, 1));
+      setSelectedDate(`${year}-12-31`);
+      setShownWeek(getIsoWeekStart(`${year}-12-31`));
+    }
   };
 
-  const getHoursBetweenDates = (start: string, end: string): number => {
+  // Selects one row of the calendar, which follows the week start setting, as the date range
+  const selectWeek = (start: string, end: string) => {
+    const hours = getRangeHours(start, end);
+    const label = `${formatDay(start, locale)} to ${formatDay(end, locale)}`;
+
+    setDateRange({ start, end });
+    setAlert({
+      message: hours > 0 ? `You coded ${formatHours(hours, locale)} hours from ${label}` : `No hours logged from ${label}`,
+      type: 'info'
+    });
+  };
+
+  const getRangeHours = (start: string, end: string): number => {
     if (!start || !end) return 0;
     
     try {
-      if (!validateDateRange(start, end)) {
+      if (!isValidDateRange(start, end)) {
         setError('Date range cannot exceed one year');
         return 0;
       }
       
-      return entries
-        .filter((entry: DayEntry) => entry.date >= start && entry.date <= end)
-        .reduce((sum: number, entry: DayEntry) => sum + entry.hours, 0);
-    } catch (err) {
+      return getHoursBetweenDates(entries, start, end);
+    } catch {
       setError('Error calculating hours between dates');
       return 0;
     }
   };
 
-  // Add a new component for the exportable image
-  const ExportableCalendar = React.forwardRef<HTMLDivElement>((_, ref) => (
-    <div 
-      ref={ref} 
-      className="bg-zinc-900 p-8 rounded-2xl"
-      style={{ fontFamily: 'inherit', width: '800px' }}
-    >
-      <div className="flex flex-col gap-6">
-        <div className="flex items-center justify-between">
-          <h1 className="text-4xl text-green-400 font-semibold">
-            2025 Did You Code?
-          </h1>
-          <div className="flex items-center gap-4">
-            <div className="flex items-center gap-2 bg-zinc-800 px-6 py-3 rounded-lg border border-green-500/20">
-              <Clock className="w-6 h-6 text-green-400" />
-              <div className="flex flex-col items-end">
-                <div className="text-sm text-green-400/70">This Month</div>
-                <div className="text-2xl text-green-400">{getCurrentMonthHours()}h</div>
-              </div>
-            </div>
-            <div className="flex items-center gap-2 bg-zinc-800 px-6 py-3 rounded-lg border border-green-500/20">
-              <Clock className="w-6 h-6 text-green-400" />
-              <div className="flex flex-col items-end">
-                <div className="text-sm text-green-400/70">This Year</div>
-                <div className="text-2xl text-green-400">{totalHours}h</div>
-              </div>
-            </div>
-          </div>
-        </div>
-        <div className="bg-zinc-800 p-6 rounded-xl border border-green-500/20">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-2xl text-green-400">
-              {monthNames[currentMonth.getMonth()]} {currentMonth.getFullYear()}
-            </h2>
-          </div>
-          <div className="grid grid-cols-7 gap-2 mb-2">
-            {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(day => (
-              <div key={day} className="text-center text-green-400/60 text-sm">
-                {day}
-              </div>
-            ))}
-          </div>
-          <div className="grid grid-cols-7 gap-2">
-            {getDaysInMonth(currentMonth).map(({ date, isCurrentMonth }, index) => {
-              const dateStr = formatDate(date);
-              const hours = getHoursForDate(dateStr);
-              const today = new Date();
-              today.setUTCHours(0, 0, 0, 0);
-              const dateToCompare = new Date(date);
-              dateToCompare.setUTCHours(0, 0, 0, 0);
-              const isToday = dateToCompare.getTime() === today.getTime();
-              const isPast = isValidDate(dateToCompare);
-
-              return (
-                <div
-                  key={index}
-                  className={`
-                    aspect-square p-0.5 sm:p-1 rounded-lg border relative group
-                    ${isCurrentMonth 
-                      ? 'border-green-500/20 bg-zinc-800/50 hover:bg-zinc-700/50' 
-                      : 'border-transparent bg-transparent'}
-                    ${isToday ? 'ring-2 ring-green-400 ring-offset-2 ring-offset-zinc-800' : ''}
-                    ${!isPast ? 'opacity-50 cursor-not-allowed' : isPast && isCurrentMonth ? 'cursor-pointer' : ''}
-                    ${dateRange.start === dateStr ? 'bg-green-500/30 border-green-500 ring-2 ring-green-500 ring-offset-1 ring-offset-zinc-800' : ''}
-                    ${dateRange.end === dateStr ? 'bg-green-500/30 border-green-500 ring-2 ring-green-500 ring-offset-1 ring-offset-zinc-800' : ''}
-                    ${dateRange.start && dateRange.end && dateStr > dateRange.start && dateStr < dateRange.end ? 'bg-green-500/20 border-green-500/50' : ''}
-                  `}
-                  onClick={() => {
-                    if (isPast && isCurrentMonth) {
-                      const clickedDate = formatDate(date);
-                      if (!dateRange.start) {
-                        setDateRange({ start: clickedDate, end: null });
-                        setAlert({
-                          message: 'Select another date to see hours between dates',
-                          type: 'info'
-                        });
-                      } else if (!dateRange.end) {
-                        const start = dateRange.start;
-                        const end = clickedDate;
-                        
-                        // Ensure dates are in correct order
-                        const [startDate, endDate] = start > end ? [end, start] : [start, end];
-                        
-                        if (!validateDateRange(startDate, endDate)) {
-                          setError('Date range cannot exceed one year');
-                          setDateRange({ start: null, end: null });
-                          return;
-                        }
-                        
-                        setDateRange({ start: startDate, end: endDate });
-                        const hours = getHoursBetweenDates(startDate, endDate);
-                        
-                        if (hours > 0) {
-                          setAlert({
-                            message: `You coded ${hours} hours between ${new Date(startDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })} and ${new Date(endDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`,
-                            type: 'info'
-                          });
-                        } else {
-                          setAlert({
-                            message: 'No hours logged for the selected date range',
-                            type: 'info'
-                          });
-                        }
-                      } else {
-                        setDateRange({ start: clickedDate, end: null });
-                        setAlert({
-                          message: 'Select another date to see hours between dates',
-                          type: 'info'
-                        });
-                      }
-                      setSelectedDate(clickedDate);
-                      setShowDatePicker(false);
-                    }
-                  }}
-                >
-                  <div className="text-center">
-                    <span className={`text-xs sm:text-sm ${isCurrentMonth ? 'text-green-400' : 'text-green-400/30'}`}>
-                      {date.getDate()}
-                    </span>
-                    {isCurrentMonth && hours > 0 && (
-                      <div className="text-[10px] sm:text-xs text-green-400 mt-0.5 sm:mt-1">
-                        {hours}h
-                      </div>
-                    )}
-                  </div>
-                  {isPast && isCurrentMonth && (
-                    <div className="absolute inset-0 hidden group-hover:flex items-center justify-center">
-                      {dateRange.start || dateRange.end ? (
-                        <div className="text-xs text-green-400 bg-zinc-800/95 px-2 py-1 rounded">
-                          Click to select range
-                        </div>
-                      ) : (
-                        <div className="flex flex-col gap-1 bg-zinc-800/95 items-center justify-center w-full p-1">
-                          {[1, 2, 4, 6, 8].map(h => (
-                            <button
-                              key={h}
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleQuickHourSelect(dateStr, h);
-                              }}
-                              className="text-xs bg-zinc-700 text-green-400 px-2 py-1.5 rounded hover:bg-zinc-600 active:bg-zinc-500 transition-colors w-full sm:w-12"
-                            >
-                              +{h}h
-                            </button>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  )}
-                </div>
-              );
-            })}
-          </div>
-        </div>
-      </div>
-    </div>
-  ));
-
-  // Update the export and share functions
-  const exportAndShare = async () => {
-    try {
-      const exportRef = document.getElementById('exportable-calendar');
-      if (!exportRef) {
-        setError('Could not find calendar element to export');
-        return;
-      }
-
-      // Create the PNG with proper dimensions
-      const dataUrl = await toPng(exportRef, {
-        quality: 1.0,
-        backgroundColor: '#18181B',
-        width: 800,
-        height: 800,
-        style: {
-          transform: 'scale(1)',
-          transformOrigin: 'top left',
-          width: '800px'
-        },
-        pixelRatio: 2
-      });
-
-      // Download the PNG first
-      downloadImage(dataUrl);
-
-      // Prepare tweet text
-      const tweetText = `I've coded ${totalHours} hours in 2025! 💻✨\nThis month: ${getCurrentMonthHours()} hours\n#CodingJourney #Code2025`;
-      
-      // Open Twitter in a new browser window
-      window.location.href = `https://twitter.com/intent/tweet?text=${encodeURIComponent(tweetText)}`;
-
+  // Clicking (or pressing Space on) a day builds up the date range one end at a time
+  const selectCalendarDate = (clickedDate: string) => {
+    if (!dateRange.start) {
+      setDateRange({ start: clickedDate, end: null });
       setAlert({
-        message: 'PNG downloaded! You can now attach it to your tweet.',
-        type: 'success'
+        message: 'Select another date to see hours between dates',
+        type: 'info'
       });
-    } catch (err) {
-      console.error('Export failed:', err);
-      setError('Failed to export image. Please try again.');
-    }
-  };
+    } else if (!dateRange.end) {
+      const start = dateRange.start;
+      const end = clickedDate;
 
-  // Update the save PNG function with better error handling
-  const savePNG = async () => {
-    try {
-      const exportRef = document.getElementById('exportable-calendar');
-      if (!exportRef) {
-        setError('Could not find calendar element to export');
-        return;
-      }
+      // Ensure dates are in correct order
+      const [startDate, endDate] = start > end ? [end, start] : [start, end];
 
-      // Validate current state before export
-      if (totalHours === 0) {
-        setError('No hours logged yet to export');
+      if (!isValidDateRange(startDate, endDate)) {
+        setError('Date range cannot exceed one year');
+        setDateRange({ start: null, end: null });
         return;
       }
 
-      const dataUrl = await toPng(exportRef, {
-        quality: 1.0,
-        backgroundColor: '#18181B',
-        width: 800,
-        height: 800,
-        style: {
-          transform: 'scale(1)',
-          transformOrigin: 'top left',
-          width: '800px'
-        },
-        pixelRatio: 2
-      }).catch(err => {
-        console.error('PNG generation failed:', err);
-        throw new Error('Failed to generate PNG');
-      });
-
-      downloadImage(dataUrl);
-    } catch (err) {
-      console.error('Save PNG failed:', err);
-      setError('Failed to save image. Please try again.');
-    }
-  };
-
-  // Add helper function for current month hours
-  const getCurrentMonthHours = (): number => {
-    const displayedMonth = currentMonth.getMonth();
-    return entries.reduce((sum, entry) => {
-      const entryMonth = new Date(entry.date).getMonth();
-      return entryMonth === displayedMonth ? sum + entry.hours : sum;
-    }, 0);
-  };
+      setDateRange({ start: startDate, end: endDate });
+      const hours = getRangeHours(startDate, endDate);
 
-  // Update the downloadImage function with better error handling
-  const downloadImage = (dataUrl: string) => {
-    try {
-      const link = document.createElement('a');
-      link.download = `coding-hours-2025-${new Date().toISOString().split('T')[0]}.png`;
-      link.href = dataUrl;
-      link.click();
+      if (hours > 0) {
+        setAlert({
+          message: `You coded ${formatHours(hours, locale)} hours between ${formatDay(startDate, locale, { month: 'long', day: 'numeric' })} and ${formatDay(endDate, locale, { month: 'long', day: 'numeric' })}`,
+          type: 'info'
+        });
+      } else {
+        setAlert({
+          message: 'No hours logged for the selected date range',
+          type: 'info'
+        });
+      }
+    } else {
+      setDateRange({ start: clickedDate, end: null });
       setAlert({
-        message: 'Image downloaded successfully!',
-        type: 'success'
+        message: 'Select another date to see hours between dates',
+        type: 'info'
       });
-    } catch (err) {
-      console.error('Download failed:', err);
-      setError('Failed to download image. Please try again.');
     }
+    setSelectedDate(clickedDate);
   };
 
   return (
     <div className="min-h-screen bg-black p-2 sm:p-4 md:p-6">
-      {/* Hidden exportable calendar */}
-      <div className="hidden">
-        <ExportableCalendar ref={(ref) => ref && (ref.id = 'exportable-calendar')} />
-      </div>
-      
       <div className="max-w-4xl mx-auto space-y-6">
         {/* First Box: Header and Calendar */}
         <div className="bg-zinc-900 rounded-2xl shadow-[0_0_15px_rgba(74,222,128,0.2)] p-3 sm:p-6 md:p-8 border border-green-500/20">
-          <div className="flex flex-col sm:flex-row items-center justify-between mb-6 sm:mb-8 gap-4">
-            <h1 className="text-2xl sm:text-3xl md:text-4xl text-green-400 text-center sm:text-left font-semibold">
-              2025 Did You Code?
-            </h1>
-            <div className="flex items-center gap-4">
-              <div className="flex items-center gap-2 bg-zinc-800 px-4 sm:px-6 py-2 sm:py-3 rounded-lg border border-green-500/20">
-                <Clock className="w-5 h-5 sm:w-6 sm:h-6 text-green-400" />
-                <div className="flex flex-col items-end">
-                  <div className="text-sm text-green-400/70">This Month</div>
-                  <div className="text-xl sm:text-2xl text-green-400">{getCurrentMonthHours()}h</div>
-                </div>
-              </div>
-              <div className="flex items-center gap-2 bg-zinc-800 px-4 sm:px-6 py-2 sm:py-3 rounded-lg border border-green-500/20">
-                <Clock className="w-5 h-5 sm:w-6 sm:h-6 text-green-400" />
-                <div className="flex flex-col items-end">
-                  <div className="text-sm text-green-400/70">This Year</div>
-                  <div className="text-xl sm:text-2xl text-green-400">{totalHours}h</div>
-                </div>
-              </div>
-            </div>
-          </div>
+          <StatsHeader
+            selectedYear={selectedYear}
+            thisYear={thisYear}
+            availableYears={availableYears}
+            monthHours={getCurrentMonthHours()}
+            yearHours={totalHours}
+            goalProgress={goals.length > 0 ? goalProgress : null}
+            locale={locale}
+            onSelectYear={selectYear}
+          />
 
           {/* Calendar Section */}
           <div id="calendar-section" className="mb-6 bg-zinc-800 p-3 sm:p-6 rounded-xl border border-green-500/20 overflow-x-auto">
             <div className="min-w-[300px] sm:min-w-0">
               <div className="flex items-center justify-between mb-3 sm:mb-4">
                 <button 
-                  onClick={() => navigateMonth('prev')}
+                  onClick={() => navigate('prev')}
+                  aria-label={`Previous ${calendarView}`}
                   className="p-1.5 sm:p-2 text-green-400 hover:bg-zinc-700 rounded-lg transition-colors"
                 >
                   <ChevronLeft className="w-5 h-5 sm:w-6 sm:h-6" />
                 </button>
-                <h2 className="text-lg sm:text-xl md:text-2xl text-green-400">
-                  {monthNames[currentMonth.getMonth()]} {currentMonth.getFullYear()}
-                </h2>
+                <div className="flex flex-col items-center gap-1">
+                  <h2 className="text-lg sm:text-xl md:text-2xl text-green-400">
+                    {calendarView === 'year'
+                      ? selectedYear
+                      : calendarView === 'week'
+                        ? `Week ${getIsoWeek(shownWeek).week}, ${getIsoWeek(shownWeek).year}`
+                        : `${monthNames[currentMonth.getMonth()]} ${currentMonth.getFullYear()}`}
+                  </h2>
+                  <div className="flex gap-1 text-xs">
+                    {(['month', 'week', 'year'] as const).map(view => (
+                      <button
+                        key={view}
+                        aria-pressed={calendarView === view}
+                        onClick={() => {
+                          if (view === 'week' && calendarView !== 'week') {
+                            setShownWeek(getIsoWeekStart(selectedDate));
+                          }
+                          setCalendarView(view);
+                        }}
+                        className={`px-2 py-0.5 rounded capitalize transition-colors ${
+                          calendarView === view
+                            ? 'bg-green-500 text-black'
+                            : 'bg-zinc-700 text-green-400 hover:bg-zinc-600'
+                        }`}
+                      >
+                        {view}
+                      </button>
+                    ))}
+                  </div>
+                  {projects.length > 0 && (
+                    <select
+                      value={projectFilter ?? ''}
+                      onChange={(e) => setProjectFilter(e.target.value || null)}
+                      aria-label="Show hours for"
+                      className="px-2 py-0.5 bg-zinc-700 text-green-400 rounded text-xs"
+                    >
+                      <option value="">All projects</option>
+                      {projects.map(project => (
+                        <option key={project.name} value={project.name}>{project.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
                 <button 
-                  onClick={() => navigateMonth('next')}
-                  className="p-1.5 sm:p-2 text-green-400 hover:bg-zinc-700 rounded-lg transition-colors"
+                  onClick={() => navigate('next')}
+                  aria-label={`Next ${calendarView}`}
+                  disabled={calendarView === 'year' && selectedYear >= thisYear}
+                  className="p-1.5 sm:p-2 text-green-400 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
                 >
                   <ChevronRight className="w-5 h-5 sm:w-6 sm:h-6" />
                 </button>
               </div>
-              <div className="grid grid-cols-7 gap-1 sm:gap-2 mb-1 sm:mb-2">
-                {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(day => (
-                  <div key={day} className="text-center text-green-400/60 text-xs sm:text-sm">
-                    {day}
-                  </div>
-                ))}
-              </div>
-              <div className="grid grid-cols-7 gap-1 sm:gap-2">
-                {getDaysInMonth(currentMonth).map(({ date, isCurrentMonth }, index) => {
-                  const dateStr = formatDate(date);
-                  const hours = getHoursForDate(dateStr);
-                  const today = new Date();
-                  today.setUTCHours(0, 0, 0, 0);
-                  const dateToCompare = new Date(date);
-                  dateToCompare.setUTCHours(0, 0, 0, 0);
-                  const isToday = dateToCompare.getTime() === today.getTime();
-                  const isPast = isValidDate(dateToCompare);
-
-                  return (
-                    <div
-                      key={index}
-                      className={`
-                        aspect-square p-0.5 sm:p-1 rounded-lg border relative group
-                        ${isCurrentMonth 
-                          ? 'border-green-500/20 bg-zinc-800/50 hover:bg-zinc-700/50' 
-                          : 'border-transparent bg-transparent'}
-                        ${isToday ? 'ring-2 ring-green-400 ring-offset-2 ring-offset-zinc-800' : ''}
-                        ${!isPast ? 'opacity-50 cursor-not-allowed' : isPast && isCurrentMonth ? 'cursor-pointer' : ''}
-                        ${dateRange.start === dateStr ? 'bg-green-500/30 border-green-500 ring-2 ring-green-500 ring-offset-1 ring-offset-zinc-800' : ''}
-                        ${dateRange.end === dateStr ? 'bg-green-500/30 border-green-500 ring-2 ring-green-500 ring-offset-1 ring-offset-zinc-800' : ''}
-                        ${dateRange.start && dateRange.end && dateStr > dateRange.start && dateStr < dateRange.end ? 'bg-green-500/20 border-green-500/50' : ''}
-                      `}
-                      onClick={() => {
-                        if (isPast && isCurrentMonth) {
-                          const clickedDate = formatDate(date);
-                          if (!dateRange.start) {
-                            setDateRange({ start: clickedDate, end: null });
-                            setAlert({
-                              message: 'Select another date to see hours between dates',
-                              type: 'info'
-                            });
-                          } else if (!dateRange.end) {
-                            const start = dateRange.start;
-                            const end = clickedDate;
-                            
-                            // Ensure dates are in correct order
-                            const [startDate, endDate] = start > end ? [end, start] : [start, end];
-                            
-                            if (!validateDateRange(startDate, endDate)) {
-                              setError('Date range cannot exceed one year');
-                              setDateRange({ start: null, end: null });
-                              return;
-                            }
-                            
-                            setDateRange({ start: startDate, end: endDate });
-                            const hours = getHoursBetweenDates(startDate, endDate);
-                            
-                            if (hours > 0) {
-                              setAlert({
-                                message: `You coded ${hours} hours between ${new Date(startDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })} and ${new Date(endDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`,
-                                type: 'info'
-                              });
-                            } else {
-                              setAlert({
-                                message: 'No hours logged for the selected date range',
-                                type: 'info'
-                              });
-                            }
-                          } else {
-                            setDateRange({ start: clickedDate, end: null });
-                            setAlert({
-                              message: 'Select another date to see hours between dates',
-                              type: 'info'
-                            });
-                          }
-                          setSelectedDate(clickedDate);
-                          setShowDatePicker(false);
-                        }
-                      }}
-                    >
-                      <div className="text-center">
-                        <span className={`text-xs sm:text-sm ${isCurrentMonth ? 'text-green-400' : 'text-green-400/30'}`}>
-                          {date.getDate()}
-                        </span>
-                        {isCurrentMonth && hours > 0 && (
-                          <div className="text-[10px] sm:text-xs text-green-400 mt-0.5 sm:mt-1">
-                            {hours}h
-                          </div>
-                        )}
-                      </div>
-                      {isPast && isCurrentMonth && (
-                        <div className="absolute inset-0 hidden group-hover:flex items-center justify-center">
-                          {dateRange.start || dateRange.end ? (
-                            <div className="text-xs text-green-400 bg-zinc-800/95 px-2 py-1 rounded">
-                              Click to select range
-                            </div>
-                          ) : (
-                            <div className="flex flex-col gap-1 bg-zinc-800/95 items-center justify-center w-full p-1">
-                              {[1, 2, 4, 6, 8].map(h => (
-                                <button
-                                  key={h}
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleQuickHourSelect(dateStr, h);
-                                  }}
-                                  className="text-xs bg-zinc-700 text-green-400 px-2 py-1.5 rounded hover:bg-zinc-600 active:bg-zinc-500 transition-colors w-full sm:w-12"
-                                >
-                                  +{h}h
-                                </button>
-                              ))}
-                            </div>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
+              {calendarView === 'year' ? (
+                <YearHeatmap
+                  year={selectedYear}
+                  locale={locale}
+                  weekStart={weekStart}
+                  getHours={getCalendarHours}
+                  isSelectable={isPastDate}
+                  onSelectDate={jumpToDate}
+                />
+              ) : calendarView === 'week' ? (
+                <WeekView
+                  summary={getWeekSummary(calendarEntries, shownWeek)}
+                  locale={locale}
+                  today={todayStr}
+                  isSelectable={isPastDate}
+                  onSelectDate={setSelectedDate}
+                />
+              ) : (
+                <CalendarGrid
+                  year={currentMonth.getFullYear()}
+                  month={currentMonth.getMonth()}
+                  entries={entries}
+                  getHours={getCalendarHours}
+                  projects={projects}
+                  projectFilter={projectFilter}
+                  goals={goals}
+                  rangeStart={dateRange.start}
+                  rangeEnd={dateRange.end}
+                  today={todayStr}
+                  monthNames={monthNames}
+                  locale={locale}
+                  weekStart={weekStart}
+                  onMonthChange={(year, month) => setCurrentMonth(new Date(year, month, 1))}
+                  onSelectDate={selectCalendarDate}
+                  onSelectWeek={selectWeek}
+                  onQuickAdd={quickAddForDate}
+                  onEditNote={setNoteDate}
+                />
+              )}
             </div>
           </div>
+        </div>
 
-          {/* Export/Share Buttons */}
-          <div className="flex items-center justify-end gap-4">
-            <button
-              onClick={savePNG}
-              className="px-4 py-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Calendar className="w-5 h-5" />
-              Save as PNG
-            </button>
-            <button
-              onClick={exportAndShare}
-              className="px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-lg transition-colors flex items-center gap-2"
-            >
-              <Share2 className="w-5 h-5" />
-              Share on Twitter
-            </button>
+        {/* Share Box */}
+        <div className="bg-zinc-900 rounded-2xl shadow-[0_0_15px_rgba(74,222,128,0.2)] p-3 sm:p-6 md:p-8 border border-green-500/20">
+          <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">Share</h3>
+          <ShareSection
+            settings={settings.share}
+            year={selectedYear}
+            thisYear={thisYear}
+            month={currentMonth.getMonth()}
+            monthHours={getCurrentMonthHours()}
+            yearHours={totalHours}
+            analytics={analytics}
+            monthNames={monthNames}
+            weekdayNames={weekdayNames}
+            locale={locale}
+            weekStart={weekStart}
+            getHours={getHoursForDate}
+            onChange={(share) => setSettings({ ...settings, share })}
+            onSuccess={(message) => setAlert({ message, type: 'success' })}
+            onError={setError}
+          />
+        </div>
+
+        {/* Analytics Box */}
+        <div className="bg-zinc-900 rounded-2xl shadow-[0_0_15px_rgba(74,222,128,0.2)] p-3 sm:p-6 md:p-8 border border-green-500/20">
+          <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">{selectedYear} Insights</h3>
+          <AnalyticsPanel analytics={analytics} locale={locale} weekStart={weekStart} />
+          <div className="mt-6">
+            <GoalsPanel
+              goals={goals}
+              today={todayStr}
+              hitRate={goalHitRate}
+              onSave={(goal) => {
+                setGoals(setGoal(goals, goal));
+                setAlert({ message: 'Goals saved. They apply from today onwards.', type: 'success' });
+              }}
+            />
           </div>
         </div>
 
         {/* Second Box: Quick Add and Manual Entry */}
         <div className="bg-zinc-900 rounded-2xl shadow-[0_0_15px_rgba(74,222,128,0.2)] p-3 sm:p-6 md:p-8 border border-green-500/20">
           <div className="space-y-6">
-            {/* Quick Add Hours Section */}
-            <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
-              <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">Quick Add Hours</h3>
-              <div className="flex flex-wrap items-center gap-3 sm:gap-4">
-                <div className="flex items-center gap-2 flex-1 min-w-[200px] bg-zinc-700/50 p-2 rounded-lg">
-                  <button
-                    onClick={() => quickAdd(-0.5)}
-                    className="p-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
-                  >
-                    <Minus className="w-5 h-5" />
-                  </button>
-                  <div className="flex-1 text-center">
-                    <div className="text-sm text-green-400/70">Today's Hours</div>
-                    <div className="text-2xl text-green-400">
-                      {entries.find(entry => entry.date === new Date().toISOString().split('T')[0])?.hours || 0}h
-                    </div>
-                  </div>
-                  <button
-                    onClick={() => quickAdd(0.5)}
-                    className="p-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
-                  >
-                    <Plus className="w-5 h-5" />
-                  </button>
-                </div>
-                <div className="flex gap-2 flex-1 min-w-[200px]">
-                  {[1, 2, 4, 8].map(hours => (
-                    <button
-                      key={hours}
-                      onClick={() => quickAdd(hours)}
-                      className="flex-1 bg-green-500/10 hover:bg-green-500/20 text-green-400 px-3 py-2 rounded-lg transition-colors text-sm"
-                    >
-                      +{hours}h
-                    </button>
-                  ))}
-                </div>
-              </div>
-            </div>
-
-            {/* Manual Entry Section */}
-            <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
-              <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6">Manual Entry</h3>
-              <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div className="relative">
-                  <button
-                    onClick={() => setShowDatePicker(!showDatePicker)}
-                    className="w-full px-4 py-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors text-left"
-                  >
-                    {new Date(selectedDate).toLocaleDateString('en-US', {
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric'
-                    })}
-                  </button>
-                  {showDatePicker && (
-                    <div 
-                      className="fixed inset-0 bg-black/50 z-10"
-                      onClick={() => setShowDatePicker(false)}
-                    >
-                      <div 
-                        className="absolute z-20 mt-2 w-full max-h-60 overflow-y-auto bg-zinc-800 rounded-lg border border-green-500/20 shadow-lg"
-                        onClick={e => e.stopPropagation()}
-                      >
-                        {getPastDates().map(date => (
-                          <button
-                            key={date.toISOString()}
-                            onClick={() => {
-                              setSelectedDate(formatDate(date));
-                              setShowDatePicker(false);
-                            }}
-                            className={`w-full px-4 py-2 text-left hover:bg-zinc-700 transition-colors ${
-                              formatDate(date) === selectedDate 
-                                ? 'bg-green-500/20 text-green-400' 
-                                : 'text-green-400'
-                            }`}
-                          >
-                            {date.toLocaleDateString('en-US', {
-                              year: 'numeric',
-                              month: 'long',
-                              day: 'numeric'
-                            })}
-                          </button>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
-                <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
-                  {[1, 2, 3, 4, 5, 6, 7, 8].map(hour => (
-                    <button
-                      key={hour}
-                      type="button"
-                      onClick={() => setHours(hour.toString())}
-                      className={`px-3 py-2 rounded-lg text-sm ${
-                        hours === hour.toString()
-                          ? 'bg-green-500 text-black'
-                          : 'bg-zinc-700 text-green-400 hover:bg-zinc-600'
-                      } transition-colors`}
-                    >
-                      {hour}h
-                    </button>
-                  ))}
-                </div>
-                <div className="flex gap-2">
-                  <button
-                    type="submit"
-                    className="flex-1 bg-green-600 text-black px-6 py-2 rounded-lg hover:bg-green-500 transition-colors text-xl"
-                  >
-                    Log Hours
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => {
-                      const currentHours = getHoursForDate(selectedDate);
-                      const selectedHours = parseFloat(hours);
-                      if (currentHours > 0 && !isNaN(selectedHours)) {
-                        deleteEntry(selectedDate, selectedHours);
-                        setHours('');
-                      }
-                    }}
-                    className={`px-6 py-2 ${
-                      getHoursForDate(selectedDate) > 0 
-                        ? 'bg-red-600/20 text-red-400 hover:bg-red-600/30' 
-                        : 'bg-zinc-600/20 text-zinc-400 cursor-not-allowed'
-                    } rounded-lg transition-colors`}
-                    disabled={getHoursForDate(selectedDate) === 0}
-                  >
-                    <Trash2 className="w-6 h-6" />
-                  </button>
-                </div>
-              </form>
-            </div>
+            <QuickAdd
+              todayHours={getHoursForDate(todayStr)}
+              locale={locale}
+              onAdd={quickAdd}
+              onTimerStop={commitTimerSessions}
+            />
+
+            <ManualEntry
+              selectedDate={selectedDate}
+              selectableDates={getLoggableDates(selectedYear, todayStr)}
+              dayHours={getHoursForDate(selectedDate)}
+              dayNote={entries.find(entry => entry.date === selectedDate)?.note ?? ''}
+              projects={projects}
+              sessionDraft={sessionDraft}
+              locale={locale}
+              onSelectDate={setSelectedDate}
+              onSessionDraftChange={setSessionDraft}
+              onLogHours={(hours) => logHours(selectedDate, hours)}
+              onRemoveHours={(hours) => removeHours(selectedDate, hours)}
+              onAddSession={logSession}
+              onEditNote={() => setNoteDate(selectedDate)}
+            />
           </div>
         </div>
 
-        {/* Third Box: Recent Entries and Date Range */}
+        {/* Third Box: Entry History and Date Range */}
         <div className="bg-zinc-900 rounded-2xl shadow-[0_0_15px_rgba(74,222,128,0.2)] p-3 sm:p-6 md:p-8 border border-green-500/20">
           <div className="space-y-6">
-            {/* Recent Entries Section */}
-            <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
-              <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6">Recent Entries</h3>
-              <div className="space-y-3 max-h-[300px] overflow-y-auto pr-2">
-                {entries
-                  .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-                  .slice(0, 5)
-                  .map((entry) => (
-                    <div
-                      key={entry.date}
-                      className="flex items-center justify-between p-3 bg-zinc-700/50 rounded-lg border border-green-500/20"
-                    >
-                      <span className="text-green-400">
-                        {new Date(entry.date).toLocaleDateString('en-US', {
-                          month: 'long',
-                          day: 'numeric',
-                          year: 'numeric'
-                        })}
-                      </span>
-                      <div className="flex items-center gap-4">
-                        <span className="text-2xl text-green-400">
-                          {entry.hours}h
-                        </span>
-                        <button
-                          onClick={() => deleteEntry(entry.date)}
-                          className="text-red-400 hover:text-red-300 transition-colors"
-                        >
-                          <Trash2 className="w-5 h-5" />
-                        </button>
-                      </div>
-                    </div>
-                  ))}
-              </div>
-            </div>
+            <EntryHistory
+              entries={entries}
+              projects={projects}
+              locale={locale}
+              onEditHours={logHours}
+              onDelete={deleteEntry}
+            />
+
+            <RangeStats
+              entries={entries}
+              start={dateRange.start}
+              end={dateRange.end}
+              totalHours={dateRange.start && dateRange.end ? getRangeHours(dateRange.start, dateRange.end) : 0}
+              today={todayStr}
+              locale={locale}
+              onBulkEdit={(newEntries, message) => {
+                updateEntries(newEntries, 'Bulk edit');
+                setAlert({ message, type: 'success', undoable: true });
+              }}
+            />
+
+            <ProjectsPanel
+              projects={projects}
+              totals={getProjectTotals(entries, projectTotalsRange.start, projectTotalsRange.end)}
+              totalsLabel={dateRange.start && dateRange.end
+                ? `Totals for ${formatDay(dateRange.start, locale, { month: 'long', day: 'numeric' })} - ${formatDay(dateRange.end, locale, { month: 'long', day: 'numeric' })}`
+                : `Totals for ${selectedYear}`}
+              locale={locale}
+              onAdd={addProject}
+              onChange={changeProject}
+              onDelete={deleteProject}
+            />
+
+            {/* Import & Export Section */}
+            <DataTransfer
+              entries={entries}
+              onImport={(newEntries, message) => {
+                updateEntries(newEntries, 'Import');
+                setAlert({ message, type: 'success', undoable: true });
+              }}
+              onError={setError}
+            />
+            <GitLogImport
+              entries={entries}
+              locale={locale}
+              onApply={(newEntries, message) => {
+                updateEntries(newEntries, 'Git log import');
+                setAlert({ message, type: 'success', undoable: true });
+              }}
+              onError={setError}
+            />
+          </div>
+        </div>
 
-            {/* Date Range Stats Section */}
-            <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
-              <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">Date Range Stats</h3>
-              <div className="text-green-400/70 text-sm mb-2">
-                {dateRange.start && dateRange.end 
-                  ? `Selected: ${new Date(dateRange.start).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })} - ${new Date(dateRange.end).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`
-                  : 'Click two dates on the calendar to see total hours between them'}
-              </div>
-              {dateRange.start && dateRange.end && (
-                <div className="flex items-center justify-between bg-zinc-700/50 p-3 rounded-lg">
-                  <span>Total Hours:</span>
-                  <span className="text-2xl text-green-400">{getHoursBetweenDates(dateRange.start, dateRange.end)}h</span>
-                </div>
-              )}
-            </div>
+        {/* Settings Box */}
+        <div className="bg-zinc-900 rounded-2xl shadow-[0_0_15px_rgba(74,222,128,0.2)] p-3 sm:p-6 md:p-8 border border-green-500/20">
+          <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">Settings</h3>
+          <div className="space-y-4">
+            <DisplaySettings
+              locale={locale}
+              weekStart={weekStart}
+              onChange={(display) => setSettings({ ...settings, ...display })}
+            />
+            <ReminderSettings
+              settings={settings.reminders}
+              onChange={(reminders) => setSettings({ ...settings, reminders })}
+              onError={setError}
+            />
+            <SyncSettings
+              settings={settings.sync}
+              status={syncStatus}
+              locale={locale}
+              onChange={(sync) => setSettings({ ...settings, sync })}
+              onSyncNow={syncNow}
+            />
           </div>
         </div>
       </div>
-      {(error || alert) && (
-        <div className="fixed top-4 right-4 flex flex-col gap-2 z-50">
-          {error && (
-            <div className="bg-red-500/90 text-white px-4 py-2 rounded-lg shadow-lg">
-              {error}
-            </div>
-          )}
-          {alert && (
-            <div 
-              className={`${
-                alert.type === 'success' ? 'bg-green-500/90' : 'bg-blue-500/90'
-              } text-white px-4 py-2 rounded-lg shadow-lg flex items-center justify-between gap-4`}
-            >
-              <span>{alert.message}</span>
-              <button 
-                onClick={() => setAlert(null)}
-                className="text-white/80 hover:text-white"
+      {/* Always rendered so screen readers announce messages as they appear */}
+      <div className="fixed top-4 right-4 flex flex-col gap-2 z-50" role="status" aria-live="polite">
+        {error && (
+          <div role="alert" className="bg-red-500/90 text-white px-4 py-2 rounded-lg shadow-lg">
+            {error}
+          </div>
+        )}
+        {alert && (
+          <div 
+            className={`${
+              alert.type === 'success' ? 'bg-green-500/90' : 'bg-blue-500/90'
+            } text-white px-4 py-2 rounded-lg shadow-lg flex items-center justify-between gap-4`}
+          >
+            <span>{alert.message}</span>
+            {alert.undoable && history.past.length > 0 && (
+              <button
+                onClick={undo}
+                className="px-2 py-0.5 rounded bg-white/20 hover:bg-white/30 transition-colors"
               >
-                ×
+                Undo
               </button>
-            </div>
-          )}
-        </div>
+            )}
+            <button 
+              onClick={() => setAlert(null)}
+              aria-label="Dismiss"
+              className="text-white/80 hover:text-white"
+            >
+              ×
+            </button>
+          </div>
+        )}
+        {pendingQuickAdd && (
+          <div className="bg-blue-500/90 text-white px-4 py-2 rounded-lg shadow-lg flex items-center justify-between gap-4">
+            <span>
+              Log {formatHours(pendingQuickAdd.hours, locale)} hours for {formatDay(pendingQuickAdd.date, locale)} from the reminder?
+            </span>
+            <button
+              onClick={confirmQuickAdd}
+              className="px-2 py-0.5 rounded bg-white/20 hover:bg-white/30 transition-colors"
+            >
+              Log
+            </button>
+            <button
+              onClick={dismissQuickAdd}
+              aria-label="Dismiss"
+              className="text-white/80 hover:text-white"
+            >
+              ×
+            </button>
+          </div>
+        )}
+      </div>
+      {noteDate && (
+        <NoteDialog
+          date={noteDate}
+          note={entries.find(entry => entry.date === noteDate)?.note ?? ''}
+          locale={locale}
+          onSave={(note) => saveNote(noteDate, note)}
+          onClose={() => setNoteDate(null)}
+        />
       )}
+      <PwaControls onBeforeUpdate={() => isLoaded ? repository.save({ entries, goals, projects, settings }) : Promise.resolve()} />
       {(dateRange.start || dateRange.end) && (
         <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 z-50">
           <button
@@ -0,0 +1,102 @@
+import { Flame, Trophy, TrendingUp } from 'lucide-react';
+import type { Analytics } from '../lib/analytics';
+import { formatDay, formatHours, getMonthNames, getWeekdayNames, orderWeekdays } from '../lib/locale';
+import type { WeekStart } from '../lib/settings';
+
+interface AnalyticsPanelProps {
+  analytics: Analytics;
+  locale: string;
+  weekStart: WeekStart;
+}
+
+function StatTile({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-zinc-700/50 p-3 rounded-lg">
+      <div className="text-sm text-green-400/70">{label}</div>
+      <div className="text-xl sm:text-2xl text-green-400">{value}</div>
+      {detail && <div className="text-xs text-green-400/50">{detail}</div>}
+    </div>
+  );
+}
+
+function BarChart({ values, labels, locale }: { values: number[]; labels: string[]; locale: string }) {
+  const max = Math.max(...values, 1);
+  return (
+    <div className="flex items-end gap-1 sm:gap-2 h-32">
+      {values.map((value, index) => (
+        <div key={index} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${labels[index]}: ${formatHours(value, locale)}h`}>
+          <div className="text-[10px] text-green-400/70">{value > 0 ? formatHours(Math.round(value), locale) : ''}</div>
+          <div
+            className="w-full bg-green-500/60 rounded-t"
+            style={{ height: `${(value / max) * 100}%` }}
+          />
+          <div className="text-[10px] sm:text-xs text-green-400/60">{labels[index]}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function AnalyticsPanel({ analytics, locale, weekStart }: AnalyticsPanelProps) {
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <StatTile
+          label="Current Streak"
+          value={`${analytics.currentStreak} ${analytics.currentStreak === 1 ? 'day' : 'days'}`}
+        />
+        <StatTile
+          label="Longest Streak"
+          value={`${analytics.longestStreak} ${analytics.longestStreak === 1 ? 'day' : 'days'}`}
+        />
+        <StatTile
+          label="Avg / Active Day"
+          value={`${formatHours(analytics.averagePerActiveDay, locale)}h`}
+          detail={`${analytics.activeDays} active ${analytics.activeDays === 1 ? 'day' : 'days'}`}
+        />
+        <StatTile label="Avg / Calendar Day" value={`${formatHours(analytics.averagePerCalendarDay, locale)}h`} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="flex items-center gap-3 bg-zinc-700/50 p-3 rounded-lg">
+          <Trophy className="w-6 h-6 text-green-400" />
+          <div>
+            <div className="text-sm text-green-400/70">Best Day</div>
+            <div className="text-green-400">
+              {analytics.bestDay ? `${formatHours(analytics.bestDay.hours, locale)}h on ${formatDay(analytics.bestDay.date, locale, { month: 'short', day: 'numeric' })}` : 'No hours yet'}
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-3 bg-zinc-700/50 p-3 rounded-lg">
+          <Flame className="w-6 h-6 text-green-400" />
+          <div>
+            <div className="text-sm text-green-400/70">Best Week</div>
+            <div className="text-green-400">
+              {analytics.bestWeek ? `${formatHours(analytics.bestWeek.hours, locale)}h from ${formatDay(analytics.bestWeek.date, locale, { month: 'short', day: 'numeric' })}` : 'No hours yet'}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="md:col-span-2">
+          <div className="flex items-center gap-2 text-sm text-green-400/70 mb-2">
+            <TrendingUp className="w-4 h-4" />
+            Hours by Month
+          </div>
+          <BarChart values={analytics.monthlyHours} labels={getMonthNames(locale, 'short')} locale={locale} />
+        </div>
+        <div>
+          <div className="text-sm text-green-400/70 mb-2">Hours by Weekday</div>
+          <BarChart
+            values={orderWeekdays(analytics.weekdayHours, weekStart)}
+            labels={getWeekdayNames(locale, weekStart)}
+            locale={locale}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AnalyticsPanel;
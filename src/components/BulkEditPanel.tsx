@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import type { DayEntry } from '../types';
+import { BULK_OPERATIONS, BulkOperation, applyBulkEdit, planBulkEdit } from '../lib/bulkEdit';
+import { formatDay, formatHours } from '../lib/locale';
+import { MAX_DAILY_HOURS } from '../lib/sessions';
+import { getHoursError } from '../lib/validation';
+
+interface BulkEditPanelProps {
+  entries: DayEntry[];
+  start: string;
+  end: string;
+  today: string;
+  locale: string;
+  onApply: (entries: DayEntry[], message: string) => void;
+}
+
+function BulkEditPanel({ entries, start, end, today, locale, onApply }: BulkEditPanelProps) {
+  const [operation, setOperation] = useState<BulkOperation>('set');
+  const [hours, setHours] = useState('');
+  const [showPreview, setShowPreview] = useState(false);
+
+  const { label, needsHours } = BULK_OPERATIONS.find(({ value }) => value === operation) ?? BULK_OPERATIONS[0];
+  const hoursNum = hours.trim() === '' ? NaN : Number(hours);
+  // Checked like manual entry, so both round and limit hours the same way
+  const hoursError = needsHours ? getHoursError(hoursNum) : null;
+  const hoursValid = hoursError === null;
+  const plan = hoursValid ? planBulkEdit(entries, start, end, operation, needsHours ? hoursNum : 0, today) : [];
+  const changed = plan.filter(row => row.action === 'change');
+  const delta = changed.reduce((sum, row) => sum + row.resultHours - row.currentHours, 0);
+  const removedNotes = changed.filter(row => row.removesNote).length;
+
+  const apply = () => {
+    onApply(
+      applyBulkEdit(entries, plan),
+      `${label}: updated ${changed.length} ${changed.length === 1 ? 'day' : 'days'}`
+    );
+    setShowPreview(false);
+  };
+
+  return (
+    <div className="mt-4 pt-4 border-t border-green-500/20 space-y-4">
+      <div className="text-green-400/70 text-sm">Edit every day in the range</div>
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Action
+          <select
+            value={operation}
+            onChange={(e) => {
+              setOperation(e.target.value as BulkOperation);
+              setShowPreview(false);
+            }}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          >
+            {BULK_OPERATIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        {needsHours && (
+          <label className="flex flex-col gap-1 text-sm text-green-400/70">
+            Hours
+            <input
+              type="number"
+              min={0}
+              max={MAX_DAILY_HOURS}
+              step={0.5}
+              value={hours}
+              onChange={(e) => {
+                setHours(e.target.value);
+                setShowPreview(false);
+              }}
+              className="w-24 px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+            />
+          </label>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowPreview(true)}
+          disabled={!hoursValid}
+          className="px-4 py-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Preview
+        </button>
+      </div>
+      {hours !== '' && hoursError && <div className="text-sm text-red-400">{hoursError}</div>}
+
+      {showPreview && (
+        <>
+          <div className="max-h-[240px] overflow-y-auto pr-2">
+            <table className="w-full text-sm text-green-400">
+              <thead className="text-green-400/60 text-left">
+                <tr>
+                  <th className="py-1 font-normal">Date</th>
+                  <th className="py-1 font-normal text-right">Current</th>
+                  <th className="py-1 font-normal text-right">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map(row => (
+                  <tr key={row.date} className={row.action === 'skip' ? 'text-green-400/40' : ''}>
+                    <td className="py-1">{formatDay(row.date, locale, { weekday: 'short', month: 'short', day: 'numeric' })}</td>
+                    <td className="py-1 text-right">{formatHours(row.currentHours, locale)}h</td>
+                    <td className="py-1 text-right">
+                      {row.reason ?? `${formatHours(row.resultHours, locale)}h`}
+                      {row.removesNote && <span className="text-red-400">, note removed</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-green-400/70">
+              {changed.length} {changed.length === 1 ? 'day' : 'days'} changed, {plan.length - changed.length} skipped
+              ({delta >= 0 ? '+' : ''}{formatHours(delta, locale)}h)
+              {removedNotes > 0 && (
+                <span className="block text-red-400">
+                  {removedNotes} {removedNotes === 1 ? 'note' : 'notes'} will be removed
+                </span>
+              )}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setShowPreview(false)}
+                className="px-4 py-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={apply}
+                disabled={changed.length === 0}
+                className="px-4 py-2 bg-green-600 text-black rounded-lg hover:bg-green-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Apply
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default BulkEditPanel;
@@ -0,0 +1,133 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import type { DayEntry } from '../types';
+import { getMonthNames } from '../lib/locale';
+import CalendarGrid from './CalendarGrid';
+
+const TODAY = '2026-10-19';
+
+const renderGrid = (entries: DayEntry[] = []) => {
+  const handlers = {
+    onMonthChange: vi.fn(),
+    onSelectDate: vi.fn(),
+    onSelectWeek: vi.fn(),
+    onQuickAdd: vi.fn(),
+    onEditNote: vi.fn()
+  };
+  render(
+    <CalendarGrid
+      year={2026}
+      month={9}
+      entries={entries}
+      getHours={date => entries.find(entry => entry.date === date)?.hours ?? 0}
+      projects={[]}
+      projectFilter={null}
+      goals={[]}
+      rangeStart={null}
+      rangeEnd={null}
+      today={TODAY}
+      monthNames={getMonthNames('en-US')}
+      locale="en-US"
+      weekStart={0}
+      {...handlers}
+    />
+  );
+  return handlers;
+};
+
+const getCell = (date: string) => {
+  const cell = document.querySelector<HTMLElement>(`[data-date="${date}"]`);
+  if (!cell) throw new Error(`No cell for ${date}`);
+  return cell;
+};
+
+describe('CalendarGrid', () => {
+  it('renders six weeks with the logged hours in their labels', () => {
+    renderGrid([{ date: '2026-10-05', hours: 3 }]);
+    expect(screen.getByRole('grid', { name: 'October 2026' })).toBeInTheDocument();
+    expect(screen.getAllByRole('gridcell')).toHaveLength(42);
+    expect(getCell('2026-10-05')).toHaveAccessibleName('October 5, 3 hours');
+    expect(getCell(TODAY)).toHaveAccessibleName('October 19, 0 hours, today');
+  });
+
+  it('gives today the only tab stop', () => {
+    renderGrid();
+    expect(getCell(TODAY)).toHaveAttribute('tabindex', '0');
+    expect(getCell('2026-10-18')).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('moves focus with the arrow keys', async () => {
+    const user = userEvent.setup();
+    renderGrid();
+    getCell(TODAY).focus();
+    await user.keyboard('{ArrowLeft}');
+    expect(getCell('2026-10-18')).toHaveFocus();
+    await user.keyboard('{ArrowUp}');
+    expect(getCell('2026-10-11')).toHaveFocus();
+  });
+
+  it('follows focus into the previous month', async () => {
+    const user = userEvent.setup();
+    const { onMonthChange } = renderGrid();
+    getCell(TODAY).focus();
+    await user.keyboard('{PageUp}');
+    expect(onMonthChange).toHaveBeenCalledWith(2026, 8);
+  });
+
+  it('selects a past day with Space but not a future one', async () => {
+    const user = userEvent.setup();
+    const { onSelectDate } = renderGrid();
+    getCell(TODAY).focus();
+    await user.keyboard(' ');
+    expect(onSelectDate).toHaveBeenCalledWith(TODAY);
+
+    onSelectDate.mockClear();
+    await user.keyboard('{ArrowRight} ');
+    expect(onSelectDate).not.toHaveBeenCalled();
+  });
+
+  it('selects the days of a row, not its ISO week, from the week number', async () => {
+    const user = userEvent.setup();
+    const { onSelectWeek } = renderGrid();
+    await user.click(screen.getByRole('button', { name: 'Week 42, select October 11 to October 17' }));
+    expect(onSelectWeek).toHaveBeenCalledWith('2026-10-11', '2026-10-17');
+  });
+
+  it('selects the week of a day with Shift+Space', async () => {
+    const user = userEvent.setup();
+    const { onSelectDate, onSelectWeek } = renderGrid();
+    getCell('2026-10-11').focus();
+    await user.keyboard('{Shift>} {/Shift}');
+    expect(onSelectWeek).toHaveBeenCalledWith('2026-10-11', '2026-10-17');
+    expect(onSelectDate).not.toHaveBeenCalled();
+
+    onSelectWeek.mockClear();
+    getCell('2026-10-25').focus();
+    await user.keyboard('{Shift>} {/Shift}');
+    expect(onSelectWeek).not.toHaveBeenCalled();
+  });
+
+  it('quick adds hours from the menu opened with Enter', async () => {
+    const user = userEvent.setup();
+    const { onQuickAdd } = renderGrid();
+    getCell(TODAY).focus();
+    await user.keyboard('{Enter}');
+    await user.click(within(getCell(TODAY)).getByRole('button', { name: 'Add 2 hours' }));
+    expect(onQuickAdd).toHaveBeenCalledWith(TODAY, 2);
+  });
+
+  it('opens the note editor from the quick menu', async () => {
+    const user = userEvent.setup();
+    const { onEditNote } = renderGrid([{ date: TODAY, hours: 1, note: 'Fixed sync' }]);
+    getCell(TODAY).focus();
+    await user.keyboard('{Enter}');
+    await user.click(within(getCell(TODAY)).getByRole('button', { name: 'Edit note' }));
+    expect(onEditNote).toHaveBeenCalledWith(TODAY);
+  });
+
+  it('offers no quick menu on future days', () => {
+    renderGrid();
+    expect(within(getCell('2026-10-20')).queryByRole('button')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,305 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StickyNote } from 'lucide-react';
+import type { DayEntry } from '../types';
+import { Goal, getDailyGoalStatus } from '../lib/goals';
+import { Project, getProjectBreakdown, getProjectColor } from '../lib/projects';
+import type { WeekStart } from '../lib/settings';
+import { getMonthWeeks } from '../lib/calendar';
+import { addDays, addMonths, fromParts, getDayOfMonth, getMonth, getWeekday, getYear } from '../lib/dates';
+import { formatDay, formatHours, getWeekdayNames } from '../lib/locale';
+import { describeDay } from '../lib/sessions';
+import { getIsoWeek } from '../lib/weeks';
+import { isValidDate } from '../lib/validation';
+
+interface CalendarGridProps {
+  year: number;
+  // 0-based, like Date#getMonth
+  month: number;
+  entries: DayEntry[];
+  // Hours shown in each cell, which may be limited to one project
+  getHours: (date: string) => number;
+  projects: Project[];
+  projectFilter: string | null;
+  goals: Goal[];
+  rangeStart: string | null;
+  rangeEnd: string | null;
+  today: string;
+  monthNames: string[];
+  locale: string;
+  weekStart: WeekStart;
+  onMonthChange: (year: number, month: number) => void;
+  onSelectDate: (date: string) => void;
+  // Called with the first and last day of a row
+  onSelectWeek: (start: string, end: string) => void;
+  onQuickAdd: (date: string, hours: number) => void;
+  onEditNote: (date: string) => void;
+}
+
+const QUICK_HOURS = [1, 2, 4, 6, 8];
+
+function CalendarGrid({
+  year,
+  month,
+  entries,
+  getHours,
+  projects,
+  projectFilter,
+  goals,
+  rangeStart,
+  rangeEnd,
+  today,
+  monthNames,
+  locale,
+  weekStart,
+  onMonthChange,
+  onSelectDate,
+  onSelectWeek,
+  onQuickAdd,
+  onEditNote
+}: CalendarGridProps) {
+  // The day holding the grid's tab stop, and the day whose quick-hour menu is open
+  const [focusedDate, setFocusedDate] = useState(today);
+  const [quickMenuDate, setQuickMenuDate] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Set by keyboard navigation, so re-rendering the grid never steals focus from elsewhere
+  const moveFocusRef = useRef(false);
+
+  useEffect(() => {
+    if (!moveFocusRef.current) return;
+    moveFocusRef.current = false;
+    gridRef.current?.querySelector<HTMLElement>(`[data-date="${focusedDate}"]`)?.focus();
+  }, [focusedDate, year, month, quickMenuDate]);
+
+  useEffect(() => {
+    if (!quickMenuDate) return;
+    gridRef.current?.querySelector<HTMLElement>(`[data-date="${quickMenuDate}"] button`)?.focus();
+  }, [quickMenuDate]);
+
+  const isPastDate = (date: string) => isValidDate(date, today);
+  const isShown = (date: string) => getYear(date) === year && getMonth(date) === month;
+  const weekdayNames = getWeekdayNames(locale, weekStart);
+
+  // The focused day when it's in the shown month, otherwise today or the 1st
+  const tabStop = isShown(focusedDate) ? focusedDate : isShown(today) ? today : fromParts(year, month, 1);
+
+  // Moves the grid's single tab stop, following it into the neighbouring month if needed
+  const focusDate = (date: string) => {
+    if (!isShown(date)) {
+      onMonthChange(getYear(date), getMonth(date));
+    }
+    moveFocusRef.current = true;
+    setFocusedDate(date);
+    setQuickMenuDate(null);
+  };
+
+  // Keyboard support following the ARIA grid pattern
+  const handleKeyDown = (e: React.KeyboardEvent, date: string) => {
+    // Keys pressed inside the quick-hour menu only close it
+    if (e.target !== e.currentTarget) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        focusDate(date);
+      }
+      return;
+    }
+
+    const weekOffset = (getWeekday(date) - weekStart + 7) % 7;
+    const moves: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -7,
+      ArrowDown: 7,
+      Home: -weekOffset,
+      End: 6 - weekOffset
+    };
+
+    if (e.key in moves) {
+      focusDate(addDays(date, moves[e.key]));
+    } else if (e.key === 'PageUp' || e.key === 'PageDown') {
+      focusDate(addMonths(date, e.key === 'PageUp' ? -1 : 1));
+    } else if (e.key === 'Enter') {
+      if (isPastDate(date)) {
+        setQuickMenuDate(date);
+      }
+    } else if (e.key === ' ' && e.shiftKey) {
+      // Shift+Space selects the row, as in a spreadsheet; it does what the row's week number button does
+      const rowStart = addDays(date, -weekOffset);
+      if (isPastDate(rowStart)) {
+        onSelectWeek(rowStart, addDays(rowStart, 6));
+      }
+    } else if (e.key === ' ') {
+      if (isPastDate(date)) {
+        onSelectDate(date);
+      }
+    } else if (e.key === 'Escape' && quickMenuDate) {
+      setQuickMenuDate(null);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div
+      ref={gridRef}
+      role="grid"
+      aria-label={`${monthNames[month]} ${year}`}
+      className="grid grid-cols-[1.25rem_repeat(7,minmax(0,1fr))] sm:grid-cols-[1.75rem_repeat(7,minmax(0,1fr))] gap-1 sm:gap-2"
+    >
+      <div role="row" className="contents">
+        <div role="columnheader" aria-label="Week number" className="text-center text-green-400/40 text-[10px] sm:text-xs self-end">
+          Wk
+        </div>
+        {getWeekdayNames(locale, weekStart, 'long').map((day, index) => (
+          <div key={day} role="columnheader" aria-label={day} className="text-center text-green-400/60 text-xs sm:text-sm">
+            {weekdayNames[index]}
+          </div>
+        ))}
+      </div>
+      {getMonthWeeks(year, month, weekStart).map(week => {
+        // ISO week number, taken from the Monday of the row, but the button selects the row as shown.
+        // It stays out of the tab order since Shift+Space does the same.
+        const [start, end] = [week[0].date, week[6].date];
+        const monday = week.find(({ date }) => getWeekday(date) === 1)?.date ?? start;
+        const rowLabel = `${formatDay(start, locale)} to ${formatDay(end, locale)}`;
+        return (
+          <div key={start} role="row" className="contents">
+            <div role="rowheader" className="flex">
+              <button
+                onClick={() => isPastDate(start) && onSelectWeek(start, end)}
+                disabled={!isPastDate(start)}
+                tabIndex={-1}
+                title={`Select ${rowLabel} (Shift+Space on a day)`}
+                aria-label={`Week ${getIsoWeek(monday).week}, select ${rowLabel}`}
+                className="flex-1 flex items-center justify-center rounded text-[10px] sm:text-xs text-green-400/50 hover:bg-zinc-700 hover:text-green-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              >
+                {getIsoWeek(monday).week}
+              </button>
+            </div>
+            {week.map(({ date: dateStr, isCurrentMonth }) => {
+              const dayEntry = entries.find((entry: DayEntry) => entry.date === dateStr);
+              const hours = dayEntry?.hours || 0;
+              const shownHours = getHours(dateStr);
+              const breakdown = getProjectBreakdown(dayEntry)
+                .filter(({ project }) => !projectFilter || project === projectFilter);
+              const sessionCount = dayEntry?.sessions?.length ?? 0;
+              const isToday = dateStr === today;
+              const isPast = isPastDate(dateStr);
+              const goalStatus = getDailyGoalStatus(goals, dateStr, hours, today);
+              const isInRange = rangeStart === dateStr || rangeEnd === dateStr ||
+                (!!rangeStart && !!rangeEnd && dateStr > rangeStart && dateStr < rangeEnd);
+              const label = [
+                formatDay(dateStr, locale, { month: 'long', day: 'numeric' }),
+                `${formatHours(shownHours, locale)} hours${projectFilter ? ` on ${projectFilter}` : ''}`,
+                ...(sessionCount > 0 ? [`${sessionCount} ${sessionCount === 1 ? 'session' : 'sessions'}`] : []),
+                ...(isToday ? ['today'] : [])
+              ].join(', ');
+
+              return (
+                <div
+                  key={dateStr}
+                  data-date={dateStr}
+                  role="gridcell"
+                  tabIndex={dateStr === tabStop ? 0 : -1}
+                  aria-label={label}
+                  aria-selected={isInRange}
+                  aria-disabled={!isPast || undefined}
+                  aria-current={isToday ? 'date' : undefined}
+                  onFocus={(e) => e.target === e.currentTarget && setFocusedDate(dateStr)}
+                  onKeyDown={(e) => handleKeyDown(e, dateStr)}
+                  className={`
+                    aspect-square p-0.5 sm:p-1 rounded-lg border relative group focus:outline-none focus-visible:ring-2 focus-visible:ring-green-300
+                    ${isCurrentMonth
+                      ? goalStatus === 'met'
+                        ? 'border-green-400/60 bg-green-500/10 hover:bg-zinc-700/50'
+                        : goalStatus === 'missed'
+                          ? 'border-red-500/40 bg-zinc-800/50 hover:bg-zinc-700/50'
+                          : 'border-green-500/20 bg-zinc-800/50 hover:bg-zinc-700/50'
+                      : 'border-transparent bg-transparent'}
+                    ${isToday ? 'ring-2 ring-green-400 ring-offset-2 ring-offset-zinc-800' : ''}
+                    ${!isPast ? 'opacity-50 cursor-not-allowed' : isPast && isCurrentMonth ? 'cursor-pointer' : ''}
+                    ${rangeStart === dateStr ? 'bg-green-500/30 border-green-500 ring-2 ring-green-500 ring-offset-1 ring-offset-zinc-800' : ''}
+                    ${rangeEnd === dateStr ? 'bg-green-500/30 border-green-500 ring-2 ring-green-500 ring-offset-1 ring-offset-zinc-800' : ''}
+                    ${rangeStart && rangeEnd && dateStr > rangeStart && dateStr < rangeEnd ? 'bg-green-500/20 border-green-500/50' : ''}
+                  `}
+                  title={isCurrentMonth ? describeDay(dayEntry) : undefined}
+                  onClick={() => isPast && isCurrentMonth && onSelectDate(dateStr)}
+                >
+                  <div className="text-center">
+                    <span className={`text-xs sm:text-sm ${isCurrentMonth ? 'text-green-400' : 'text-green-400/30'}`}>
+                      {getDayOfMonth(dateStr)}
+                    </span>
+                    {isCurrentMonth && shownHours > 0 && (
+                      <div className="text-[10px] sm:text-xs text-green-400 mt-0.5 sm:mt-1">
+                        {formatHours(shownHours, locale)}h
+                      </div>
+                    )}
+                    {isCurrentMonth && breakdown.some(({ project }) => project !== null) && (
+                      <div className="flex h-1 sm:h-1.5 mx-0.5 sm:mx-1 mt-0.5 rounded-full overflow-hidden bg-zinc-700" aria-hidden="true">
+                        {breakdown.map(({ project, hours: projectHours }) => (
+                          <div
+                            key={project ?? ''}
+                            style={{ width: `${(projectHours / hours) * 100}%`, background: getProjectColor(projects, project) }}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {isCurrentMonth && dayEntry?.note && (
+                      <StickyNote className="absolute top-0.5 right-0.5 sm:top-1 sm:right-1 w-2.5 h-2.5 sm:w-3 sm:h-3 text-green-400/60" aria-label="Has a note" />
+                    )}
+                    {isCurrentMonth && sessionCount > 0 && (
+                      <div className="hidden sm:block text-[10px] text-green-400/60">
+                        {sessionCount} {sessionCount === 1 ? 'session' : 'sessions'}
+                      </div>
+                    )}
+                  </div>
+                  {isPast && isCurrentMonth && (
+                    <div className={`absolute inset-0 items-center justify-center ${quickMenuDate === dateStr ? 'flex' : 'hidden group-hover:flex'}`}>
+                      {(rangeStart || rangeEnd) && quickMenuDate !== dateStr ? (
+                        <div className="text-xs text-green-400 bg-zinc-800/95 px-2 py-1 rounded">
+                          Click to select range
+                        </div>
+                      ) : (
+                        <div role="group" aria-label="Quick add hours" className="flex flex-col gap-1 bg-zinc-800/95 items-center justify-center w-full p-1">
+                          {QUICK_HOURS.map(h => (
+                            <button
+                              key={h}
+                              aria-label={`Add ${h} ${h === 1 ? 'hour' : 'hours'}`}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onQuickAdd(dateStr, h);
+                                if (quickMenuDate === dateStr) {
+                                  focusDate(dateStr);
+                                }
+                              }}
+                              className="text-xs bg-zinc-700 text-green-400 px-2 py-1.5 rounded hover:bg-zinc-600 active:bg-zinc-500 transition-colors w-full sm:w-12"
+                            >
+                              +{h}h
+                            </button>
+                          ))}
+                          <button
+                            aria-label={dayEntry?.note ? 'Edit note' : 'Add note'}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setQuickMenuDate(null);
+                              onEditNote(dateStr);
+                            }}
+                            className="text-xs bg-zinc-700 text-green-400 px-2 py-1.5 rounded hover:bg-zinc-600 active:bg-zinc-500 transition-colors w-full sm:w-12 flex justify-center"
+                          >
+                            <StickyNote className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default CalendarGrid;
@@ -0,0 +1,134 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import type { DayEntry } from '../types';
+import { ConflictMode, ParsedImport, applyImport, planImport, summarizePlan, toCsv, toJson } from '../lib/transfer';
+import { acceptedExtensions, detectImporter, findImporter, importers } from '../lib/importers';
+import { getToday } from '../lib/dates';
+import ImportPreview from './ImportPreview';
+
+interface DataTransferProps {
+  entries: DayEntry[];
+  onImport: (entries: DayEntry[], message: string) => void;
+  onError: (message: string) => void;
+}
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.download = fileName;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function DataTransfer({ entries, onImport, onError }: DataTransferProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState('auto');
+  const [pending, setPending] = useState<{ fileName: string; source: string; parsed: ParsedImport } | null>(null);
+
+  const exportData = (format: 'json' | 'csv') => {
+    if (entries.length === 0) {
+      onError('No hours logged yet to export');
+      return;
+    }
+    const fileName = `coding-hours-${getToday()}.${format}`;
+    if (format === 'json') {
+      downloadFile(toJson(entries), fileName, 'application/json');
+    } else {
+      downloadFile(toCsv(entries), fileName, 'text/csv');
+    }
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const importer = format === 'auto' ? detectImporter(file.name, text) : findImporter(format);
+      if (!importer) {
+        onError('Unrecognised file format. Pick the format manually and try again.');
+        return;
+      }
+
+      const parsed = importer.parse(text);
+      if (parsed.entries.length === 0) {
+        onError(parsed.errors[0] ?? 'No entries found in file');
+        return;
+      }
+      setPending({ fileName: file.name, source: `${file.name} (${importer.label})`, parsed });
+    } catch {
+      onError('Failed to read file. Please try again.');
+    }
+  };
+
+  const applyPending = (mode: ConflictMode) => {
+    if (!pending) return;
+    const summary = summarizePlan(planImport(entries, pending.parsed.entries, mode));
+    onImport(
+      applyImport(entries, pending.parsed.entries, mode),
+      `Imported ${summary.added + summary.replaced + summary.summed} days from ${pending.fileName}`
+    );
+    setPending(null);
+  };
+
+  return (
+    <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
+      <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">Import &amp; Export</h3>
+      {pending ? (
+        <ImportPreview
+          source={pending.source}
+          parsed={pending.parsed}
+          entries={entries}
+          onApply={applyPending}
+          onCancel={() => setPending(null)}
+        />
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => exportData('json')}
+            className="px-4 py-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Download className="w-5 h-5" />
+            Export JSON
+          </button>
+          <button
+            onClick={() => exportData('csv')}
+            className="px-4 py-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Download className="w-5 h-5" />
+            Export CSV
+          </button>
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-green-400 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Upload className="w-5 h-5" />
+            Import File
+          </button>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value)}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+            aria-label="Import format"
+          >
+            <option value="auto">Auto-detect format</option>
+            {importers.map(importer => (
+              <option key={importer.id} value={importer.id}>{importer.label}</option>
+            ))}
+          </select>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={acceptedExtensions}
+            onChange={handleFile}
+            className="hidden"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DataTransfer;
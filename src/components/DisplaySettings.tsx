@@ -0,0 +1,60 @@
+import { Globe } from 'lucide-react';
+import { LOCALE_OPTIONS, formatDay, formatHours, getLocaleLabel, getWeekdayNames } from '../lib/locale';
+import type { WeekStart } from '../lib/settings';
+
+interface DisplaySettingsProps {
+  locale: string;
+  weekStart: WeekStart;
+  onChange: (settings: { locale: string; weekStart: WeekStart }) => void;
+}
+
+// The browser's own locale is offered first when it isn't one of the presets
+const getLocaleOptions = (current: string) => {
+  const browserLocale = typeof navigator !== 'undefined' ? navigator.language : undefined;
+  return Array.from(new Set([...(browserLocale ? [browserLocale] : []), current, ...LOCALE_OPTIONS]));
+};
+
+function DisplaySettings({ locale, weekStart, onChange }: DisplaySettingsProps) {
+  const weekdayNames = getWeekdayNames(locale, 0, 'long');
+
+  return (
+    <div className="bg-zinc-700/50 p-4 rounded-lg space-y-4">
+      <div className="flex items-center gap-2 text-green-400">
+        <Globe className="w-5 h-5" />
+        Language & Region
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Locale
+          <select
+            value={locale}
+            onChange={(e) => onChange({ locale: e.target.value, weekStart })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          >
+            {getLocaleOptions(locale).map(option => (
+              <option key={option} value={option}>
+                {getLocaleLabel(option)} ({option})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Week starts on
+          <select
+            value={weekStart}
+            onChange={(e) => onChange({ locale, weekStart: e.target.value === '1' ? 1 : 0 })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          >
+            <option value={0}>{weekdayNames[0]}</option>
+            <option value={1}>{weekdayNames[1]}</option>
+          </select>
+        </label>
+      </div>
+      <div className="text-xs text-green-400/50">
+        Preview: {formatDay('2025-03-14', locale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })} · {formatHours(1234.5, locale)}h
+      </div>
+    </div>
+  );
+}
+
+export default DisplaySettings;
@@ -0,0 +1,267 @@
+import React, { useState } from 'react';
+import { Check, ChevronLeft, ChevronRight, Pencil, Search, Trash2, X } from 'lucide-react';
+import type { DayEntry } from '../types';
+import { Project, getProjectColor } from '../lib/projects';
+import {
+  DEFAULT_ENTRY_LIST_QUERY,
+  ENTRY_SORTS,
+  EntryListQuery,
+  EntrySort,
+  getPage,
+  getPageCount,
+  queryEntries
+} from '../lib/entryList';
+import { formatDay, formatHours } from '../lib/locale';
+import { MAX_DAILY_HOURS, getSessionHours, getUntimedHours } from '../lib/sessions';
+import NoteMarkdown from './NoteMarkdown';
+
+interface EntryHistoryProps {
+  entries: DayEntry[];
+  projects: Project[];
+  locale: string;
+  // Sets a day's total with the same rules as manual entry; returns whether it was saved
+  onEditHours: (date: string, hours: number) => boolean;
+  // Deletes one session when given its id, otherwise the whole day
+  onDelete: (date: string, sessionId?: string) => void;
+}
+
+const parseBound = (value: string): number | null => {
+  const hours = parseFloat(value);
+  return isNaN(hours) ? null : hours;
+};
+
+function EntryHistory({ entries, projects, locale, onEditHours, onDelete }: EntryHistoryProps) {
+  const [query, setQuery] = useState<EntryListQuery>(DEFAULT_ENTRY_LIST_QUERY);
+  const [page, setPage] = useState(0);
+  const [editing, setEditing] = useState<{ date: string; hours: string } | null>(null);
+
+  const matches = queryEntries(entries, query);
+  const pageCount = getPageCount(matches.length);
+  const currentPage = Math.min(page, pageCount - 1);
+  const isFiltered = query.month !== '' || query.minHours !== null || query.maxHours !== null || query.text.trim() !== '';
+
+  // Any change to the filters starts again from the first page
+  const changeQuery = (change: Partial<EntryListQuery>) => {
+    setQuery({ ...query, ...change });
+    setPage(0);
+  };
+
+  const saveEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editing && onEditHours(editing.date, parseFloat(editing.hours))) {
+      setEditing(null);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
+      <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6">Entry History</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+        <label className="col-span-2 flex flex-col gap-1 text-sm text-green-400/70">
+          Search
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-green-400/50" />
+            <input
+              type="search"
+              value={query.text}
+              onChange={(e) => changeQuery({ text: e.target.value })}
+              placeholder="Note or project"
+              className="w-full pl-9 pr-3 py-2 bg-zinc-700 text-green-400 rounded-lg placeholder:text-green-400/30"
+            />
+          </div>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Month
+          <input
+            type="month"
+            value={query.month}
+            onChange={(e) => changeQuery({ month: e.target.value })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Sort
+          <select
+            value={query.sort}
+            onChange={(e) => changeQuery({ sort: e.target.value as EntrySort })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          >
+            {ENTRY_SORTS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Min hours
+          <input
+            type="number"
+            min={0}
+            max={MAX_DAILY_HOURS}
+            step={0.5}
+            value={query.minHours ?? ''}
+            onChange={(e) => changeQuery({ minHours: parseBound(e.target.value) })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Max hours
+          <input
+            type="number"
+            min={0}
+            max={MAX_DAILY_HOURS}
+            step={0.5}
+            value={query.maxHours ?? ''}
+            onChange={(e) => changeQuery({ maxHours: parseBound(e.target.value) })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          />
+        </label>
+        {isFiltered && (
+          <button
+            type="button"
+            onClick={() => changeQuery({ ...DEFAULT_ENTRY_LIST_QUERY, sort: query.sort })}
+            className="col-span-2 self-end px-4 py-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {matches.length === 0 && (
+          <div className="text-sm text-green-400/60">
+            {entries.length === 0 ? 'No hours logged yet' : 'No days match these filters'}
+          </div>
+        )}
+        {getPage(matches, currentPage).map((entry) => (
+          <div
+            key={entry.date}
+            className="p-3 bg-zinc-700/50 rounded-lg border border-green-500/20"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-green-400">
+                {formatDay(entry.date, locale, {
+                  month: 'long',
+                  day: 'numeric',
+                  year: 'numeric'
+                })}
+              </span>
+              {editing?.date === entry.date ? (
+                <form onSubmit={saveEdit} className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_DAILY_HOURS}
+                    step={0.5}
+                    value={editing.hours}
+                    onChange={(e) => setEditing({ ...editing, hours: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditing(null)}
+                    aria-label={`Hours for ${formatDay(entry.date, locale, { month: 'long', day: 'numeric' })}`}
+                    autoFocus
+                    className="w-20 px-2 py-1 bg-zinc-700 text-green-400 rounded-lg"
+                  />
+                  <button type="submit" className="text-green-400 hover:text-green-300 transition-colors" title="Save hours">
+                    <Check className="w-5 h-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditing(null)}
+                    className="text-green-400/60 hover:text-green-300 transition-colors"
+                    title="Cancel"
+                  >
+                    <X className="w-5 h-5" />
+                  </button>
+                </form>
+              ) : (
+                <div className="flex items-center gap-4">
+                  <span className="text-2xl text-green-400">
+                    {formatHours(entry.hours, locale)}h
+                  </span>
+                  <button
+                    onClick={() => setEditing({ date: entry.date, hours: String(entry.hours) })}
+                    className="text-green-400/60 hover:text-green-300 transition-colors"
+                    title="Edit hours for this day"
+                  >
+                    <Pencil className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(entry.date)}
+                    className="text-red-400 hover:text-red-300 transition-colors"
+                    title="Delete all hours for this day"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+              )}
+            </div>
+            {entry.note && (
+              <NoteMarkdown note={entry.note} className="mt-2" />
+            )}
+            {entry.sessions && entry.sessions.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {entry.sessions.map(session => (
+                  <div key={session.id} className="flex items-center justify-between gap-2 text-sm text-green-400/80">
+                    <span className="truncate">
+                      {session.start}–{session.end}
+                      {session.project && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-green-500/10 text-green-400 inline-flex items-center gap-1">
+                          <span className="w-2 h-2 rounded-full" style={{ background: getProjectColor(projects, session.project) }} />
+                          {session.project}
+                        </span>
+                      )}
+                      {session.note && <span className="ml-2 text-green-400/60">{session.note}</span>}
+                    </span>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span>{formatHours(getSessionHours(session), locale)}h</span>
+                      <button
+                        onClick={() => onDelete(entry.date, session.id)}
+                        className="text-red-400/80 hover:text-red-300 transition-colors"
+                        title="Delete this session"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                {getUntimedHours(entry) > 0 && (
+                  <div className="flex items-center justify-between text-sm text-green-400/60">
+                    <span>Untimed</span>
+                    <span className="mr-7">{formatHours(getUntimedHours(entry), locale)}h</span>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {matches.length > 0 && (
+        <div className="flex items-center justify-between gap-4 mt-4 text-sm text-green-400/70">
+          <span>{matches.length} {matches.length === 1 ? 'day' : 'days'}</span>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPage(currentPage - 1)}
+              disabled={currentPage === 0}
+              aria-label="Previous page"
+              className="p-1.5 text-green-400 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span>Page {currentPage + 1} of {pageCount}</span>
+            <button
+              type="button"
+              onClick={() => setPage(currentPage + 1)}
+              disabled={currentPage >= pageCount - 1}
+              aria-label="Next page"
+              className="p-1.5 text-green-400 hover:bg-zinc-700 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EntryHistory;
@@ -0,0 +1,223 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { GitCommit, Upload } from 'lucide-react';
+import type { DayEntry } from '../types';
+import { DEFAULT_GIT_LOG_OPTIONS, GIT_LOG_COMMAND, GitLogOptions, GitLogSuggestion, estimateGitLog } from '../lib/importers/gitlog';
+import { ConflictMode, applyImport, planImport } from '../lib/transfer';
+import { formatDay, formatHours } from '../lib/locale';
+
+interface GitLogImportProps {
+  entries: DayEntry[];
+  locale: string;
+  onApply: (entries: DayEntry[], message: string) => void;
+  onError: (message: string) => void;
+}
+
+const MAX_IDLE_GAP_MINUTES = 8 * 60;
+const MAX_PADDING_MINUTES = 4 * 60;
+
+function GitLogImport({ entries, locale, onApply, onError }: GitLogImportProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [options, setOptions] = useState<GitLogOptions>(DEFAULT_GIT_LOG_OPTIONS);
+  // Suggestions the user has already taken, by date
+  const [applied, setApplied] = useState<Record<string, ConflictMode>>({});
+
+  const estimate = text.trim() ? estimateGitLog(text, options) : null;
+  const open = estimate?.suggestions.filter(suggestion => !applied[suggestion.date]) ?? [];
+
+  const changeOption = (key: 'idleGapMinutes' | 'paddingMinutes', value: string, max: number) => {
+    const minutes = parseInt(value, 10);
+    setOptions(current => ({ ...current, [key]: isNaN(minutes) ? 0 : Math.min(Math.max(minutes, 0), max) }));
+  };
+
+  const changeText = (value: string) => {
+    setText(value);
+    setApplied({});
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      changeText(await file.text());
+    } catch {
+      onError('Failed to read file. Please try again.');
+    }
+  };
+
+  const apply = (suggestions: GitLogSuggestion[], mode: ConflictMode) => {
+    const incoming = suggestions.map(({ date, hours }) => ({ date, hours }));
+    const plan = planImport(entries, incoming, mode);
+    const accepted = plan.filter(row => row.action !== 'skip');
+    if (accepted.length === 0) {
+      const [skipped] = plan;
+      onError(`Can't merge ${formatDay(skipped.date, locale, { month: 'long', day: 'numeric' })}: ${skipped.reason}`);
+      return;
+    }
+
+    onApply(
+      applyImport(entries, incoming, mode),
+      `${mode === 'sum' ? 'Merged' : 'Accepted'} git log estimates for ${accepted.length} ${accepted.length === 1 ? 'day' : 'days'}`
+    );
+    setApplied(current => ({
+      ...current,
+      ...Object.fromEntries(accepted.map(row => [row.date, mode]))
+    }));
+  };
+
+  return (
+    <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20 space-y-4">
+      <h3 className="text-lg sm:text-xl text-green-400 font-medium flex items-center gap-2">
+        <GitCommit className="w-5 h-5" />
+        Estimate from Git History
+      </h3>
+      <p className="text-sm text-green-400/70">
+        Paste the output of <code className="px-1 bg-zinc-900 rounded">{GIT_LOG_COMMAND}</code> or upload it as a file.
+        Commits close together become one session, and each session is credited some time before its first commit.
+        Nothing leaves your browser.
+      </p>
+      <textarea
+        value={text}
+        onChange={(e) => changeText(e.target.value)}
+        rows={5}
+        placeholder="3f2a9c1|you@example.com|2026-03-14T09:30:00+01:00|Fix login redirect"
+        aria-label="Git log output"
+        className="w-full px-3 py-2 bg-zinc-700 text-green-400 rounded-lg font-mono text-sm placeholder:text-green-400/30"
+      />
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Idle gap (min)
+          <input
+            type="number"
+            min={0}
+            max={MAX_IDLE_GAP_MINUTES}
+            step={15}
+            value={options.idleGapMinutes}
+            onChange={(e) => changeOption('idleGapMinutes', e.target.value, MAX_IDLE_GAP_MINUTES)}
+            className="w-24 px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          First commit padding (min)
+          <input
+            type="number"
+            min={0}
+            max={MAX_PADDING_MINUTES}
+            step={15}
+            value={options.paddingMinutes}
+            onChange={(e) => changeOption('paddingMinutes', e.target.value, MAX_PADDING_MINUTES)}
+            className="w-24 px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Author
+          <input
+            type="text"
+            value={options.author ?? ''}
+            onChange={(e) => setOptions(current => ({ ...current, author: e.target.value }))}
+            placeholder="Name or email"
+            className="w-48 px-3 py-2 bg-zinc-700 text-green-400 rounded-lg placeholder:text-green-400/30"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="px-4 py-2 bg-zinc-700 hover:bg-zinc-600 text-green-400 rounded-lg transition-colors flex items-center gap-2"
+        >
+          <Upload className="w-5 h-5" />
+          Upload Log
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".txt,.log"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {estimate && estimate.suggestions.length === 0 && (
+        <div className="text-sm text-red-400">{estimate.errors[0]}</div>
+      )}
+
+      {estimate && estimate.suggestions.length > 0 && (
+        <>
+          <div className="max-h-[280px] overflow-y-auto pr-2">
+            <table className="w-full text-sm text-green-400">
+              <thead className="text-green-400/60 text-left">
+                <tr>
+                  <th className="py-1 font-normal">Date</th>
+                  <th className="py-1 font-normal text-right">Commits</th>
+                  <th className="py-1 font-normal text-right">Logged</th>
+                  <th className="py-1 font-normal text-right">Estimate</th>
+                  <th className="py-1 font-normal text-right"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {estimate.suggestions.map(suggestion => {
+                  const current = entries.find(entry => entry.date === suggestion.date);
+                  const done = applied[suggestion.date];
+                  return (
+                    <tr key={suggestion.date} className={done ? 'text-green-400/40' : ''}>
+                      <td className="py-1">{formatDay(suggestion.date, locale, { weekday: 'short', month: 'short', day: 'numeric' })}</td>
+                      <td className="py-1 text-right">{suggestion.commits}</td>
+                      <td className="py-1 text-right">{current ? `${formatHours(current.hours, locale)}h` : '—'}</td>
+                      <td className="py-1 text-right">{formatHours(suggestion.hours, locale)}h</td>
+                      <td className="py-1 text-right">
+                        {done ? (
+                          done === 'sum' ? 'Merged' : 'Accepted'
+                        ) : (
+                          <div className="flex justify-end gap-1">
+                            <button
+                              type="button"
+                              onClick={() => apply([suggestion], 'replace')}
+                              title={current ? 'Replace the logged hours with the estimate' : 'Log the estimate'}
+                              className="px-2 py-0.5 bg-green-500/10 hover:bg-green-500/20 rounded transition-colors"
+                            >
+                              Accept
+                            </button>
+                            {current && (
+                              <button
+                                type="button"
+                                onClick={() => apply([suggestion], 'sum')}
+                                title="Add the estimate to the logged hours"
+                                className="px-2 py-0.5 bg-zinc-700 hover:bg-zinc-600 rounded transition-colors"
+                              >
+                                Merge
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {estimate.errors.length > 0 && (
+            <div className="text-sm text-red-400">{estimate.errors.join('. ')}</div>
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-green-400/70">
+              {estimate.suggestions.length} {estimate.suggestions.length === 1 ? 'day' : 'days'},{' '}
+              {formatHours(estimate.suggestions.reduce((sum, suggestion) => sum + suggestion.hours, 0), locale)}h estimated
+            </span>
+            <button
+              type="button"
+              onClick={() => apply(open, 'replace')}
+              disabled={open.length === 0}
+              className="px-4 py-2 bg-green-600 text-black rounded-lg hover:bg-green-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Accept All
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default GitLogImport;
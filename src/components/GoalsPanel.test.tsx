@@ -0,0 +1,37 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import type { Goal } from '../lib/goals';
+import GoalsPanel from './GoalsPanel';
+
+const TODAY = '2026-10-19';
+
+const saved: Goal = { effectiveFrom: '2026-01-01', weekdayHours: 2, weekendHours: 1, weeklyHours: 12, yearlyHours: 600 };
+
+describe('GoalsPanel', () => {
+  it('shows and saves goals that load after it mounts', async () => {
+    const user = userEvent.setup();
+    const onSave = vi.fn();
+    const { rerender } = render(<GoalsPanel goals={[]} today={TODAY} hitRate={null} onSave={onSave} />);
+    expect(screen.getByLabelText('Weekdays (h/day)')).toHaveValue(4);
+
+    rerender(<GoalsPanel goals={[saved]} today={TODAY} hitRate={null} onSave={onSave} />);
+    expect(screen.getByLabelText('Weekdays (h/day)')).toHaveValue(2);
+    expect(screen.getByLabelText('Per year (h)')).toHaveValue(600);
+
+    await user.click(screen.getByRole('button', { name: /save/i }));
+    expect(onSave).toHaveBeenCalledWith({ ...saved, effectiveFrom: TODAY });
+  });
+
+  it('keeps edits while the goals stay the same', async () => {
+    const user = userEvent.setup();
+    const goals = [saved];
+    const { rerender } = render(<GoalsPanel goals={goals} today={TODAY} hitRate={null} onSave={vi.fn()} />);
+    const weekdays = screen.getByLabelText('Weekdays (h/day)');
+    await user.clear(weekdays);
+    await user.type(weekdays, '6');
+
+    rerender(<GoalsPanel goals={goals} today={TODAY} hitRate={50} onSave={vi.fn()} />);
+    expect(weekdays).toHaveValue(6);
+  });
+});
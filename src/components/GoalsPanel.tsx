@@ -0,0 +1,82 @@
+import { FormEvent, useState } from 'react';
+import { Target } from 'lucide-react';
+import { DEFAULT_GOAL, Goal, getGoalForDate } from '../lib/goals';
+
+interface GoalsPanelProps {
+  goals: Goal[];
+  today: string;
+  hitRate: number | null;
+  onSave: (goal: Goal) => void;
+}
+
+const fields: { key: keyof typeof DEFAULT_GOAL; label: string; max: number }[] = [
+  { key: 'weekdayHours', label: 'Weekdays (h/day)', max: 24 },
+  { key: 'weekendHours', label: 'Weekends (h/day)', max: 24 },
+  { key: 'weeklyHours', label: 'Per week (h)', max: 168 },
+  { key: 'yearlyHours', label: 'Per year (h)', max: 8784 }
+];
+
+const toForm = (goal: Goal | undefined) => {
+  const { weekdayHours, weekendHours, weeklyHours, yearlyHours } = goal ?? DEFAULT_GOAL;
+  return { weekdayHours, weekendHours, weeklyHours, yearlyHours };
+};
+
+function GoalsPanel({ goals, today, hitRate, onSave }: GoalsPanelProps) {
+  const current = getGoalForDate(goals, today);
+  const [form, setForm] = useState(() => toForm(current));
+  // Saved goals load after the panel mounts, so the form follows the current goal whenever it changes
+  const [seededFrom, setSeededFrom] = useState(current);
+  if (current !== seededFrom) {
+    setSeededFrom(current);
+    setForm(toForm(current));
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({ ...form, effectiveFrom: today });
+  };
+
+  return (
+    <div className="bg-zinc-700/50 p-4 rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-green-400">
+          <Target className="w-5 h-5" />
+          Goals
+        </div>
+        <div className="text-right">
+          <div className="text-sm text-green-400/70">Goal Hit Rate</div>
+          <div className="text-xl text-green-400">{hitRate === null ? '–' : `${hitRate}%`}</div>
+        </div>
+      </div>
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+        {fields.map(({ key, label, max }) => (
+          <label key={key} className="flex flex-col gap-1 text-sm text-green-400/70">
+            {label}
+            <input
+              type="number"
+              min={0}
+              max={max}
+              step={0.5}
+              value={form[key]}
+              onChange={(e) => setForm({ ...form, [key]: Math.min(Math.max(0, parseFloat(e.target.value) || 0), max) })}
+              className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+            />
+          </label>
+        ))}
+        <button
+          type="submit"
+          className="col-span-2 sm:col-span-1 bg-green-500/10 hover:bg-green-500/20 text-green-400 px-4 py-2 rounded-lg transition-colors"
+        >
+          Save Goals
+        </button>
+      </form>
+      <div className="text-xs text-green-400/50">
+        {current
+          ? `Current goals apply from ${current.effectiveFrom}. Changes take effect today and don't affect earlier days.`
+          : 'No goals set yet. Saved goals apply from today onwards.'}
+      </div>
+    </div>
+  );
+}
+
+export default GoalsPanel;
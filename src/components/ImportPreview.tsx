@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import type { DayEntry } from '../types';
+import { ConflictMode, ParsedImport, planImport, summarizePlan } from '../lib/transfer';
+
+interface ImportPreviewProps {
+  source: string;
+  parsed: ParsedImport;
+  entries: DayEntry[];
+  onApply: (mode: ConflictMode) => void;
+  onCancel: () => void;
+}
+
+const conflictModes: { value: ConflictMode; label: string }[] = [
+  { value: 'skip', label: 'Keep existing' },
+  { value: 'replace', label: 'Replace' },
+  { value: 'sum', label: 'Add together' }
+];
+
+const actionLabels = {
+  add: 'New',
+  replace: 'Replace',
+  sum: 'Add',
+  skip: 'Skip'
+};
+
+function ImportPreview({ source, parsed, entries, onApply, onCancel }: ImportPreviewProps) {
+  const [mode, setMode] = useState<ConflictMode>('skip');
+  const plan = planImport(entries, parsed.entries, mode);
+  const summary = summarizePlan(plan);
+  const hasChanges = plan.some(row => row.action !== 'skip');
+
+  return (
+    <div className="space-y-4">
+      <div className="text-green-400/70 text-sm">
+        {source}: {parsed.entries.length} {parsed.entries.length === 1 ? 'day' : 'days'} found
+        {parsed.errors.length > 0 && `, ${parsed.errors.length} rejected`}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-green-400/70">When a day is already logged:</span>
+        {conflictModes.map(({ value, label }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setMode(value)}
+            className={`px-3 py-1.5 rounded-lg transition-colors ${
+              mode === value
+                ? 'bg-green-500 text-black'
+                : 'bg-zinc-700 text-green-400 hover:bg-zinc-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {plan.length > 0 && (
+        <div className="max-h-[240px] overflow-y-auto pr-2">
+          <table className="w-full text-sm text-green-400">
+            <thead className="text-green-400/60 text-left">
+              <tr>
+                <th className="py-1 font-normal">Date</th>
+                <th className="py-1 font-normal text-right">Current</th>
+                <th className="py-1 font-normal text-right">Imported</th>
+                <th className="py-1 font-normal text-right">Result</th>
+                <th className="py-1 font-normal text-right">Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.map(row => (
+                <tr key={row.date} className={row.action === 'skip' ? 'text-green-400/40' : ''}>
+                  <td className="py-1">{row.date}</td>
+                  <td className="py-1 text-right">{row.currentHours}h</td>
+                  <td className="py-1 text-right">{row.importedHours}h</td>
+                  <td className="py-1 text-right">{row.resultHours}h</td>
+                  <td className="py-1 text-right" title={row.reason}>{actionLabels[row.action]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {parsed.errors.length > 0 && (
+        <ul className="max-h-[120px] overflow-y-auto text-sm text-red-400 space-y-1">
+          {parsed.errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm text-green-400/70">
+          {summary.added} new, {summary.replaced} replaced, {summary.summed} added, {summary.skipped} skipped
+          ({summary.hours >= 0 ? '+' : ''}{summary.hours}h)
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(mode)}
+            disabled={!hasChanges}
+            className="px-4 py-2 bg-green-600 text-black rounded-lg hover:bg-green-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImportPreview;
@@ -0,0 +1,93 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import { EMPTY_SESSION_DRAFT } from '../lib/sessions';
+import ManualEntry from './ManualEntry';
+
+const renderEntry = (props: {
+  dayHours?: number;
+  dayNote?: string;
+  onLogHours?: (hours: number) => boolean;
+  onRemoveHours?: (hours: number) => boolean;
+} = {}) => {
+  const handlers = {
+    onSelectDate: vi.fn(),
+    onSessionDraftChange: vi.fn(),
+    onLogHours: vi.fn(props.onLogHours ?? (() => true)),
+    onRemoveHours: vi.fn(props.onRemoveHours ?? (() => true)),
+    onAddSession: vi.fn(),
+    onEditNote: vi.fn()
+  };
+  render(
+    <ManualEntry
+      selectedDate="2026-10-19"
+      selectableDates={['2026-10-19', '2026-10-18', '2026-10-17']}
+      dayHours={props.dayHours ?? 0}
+      dayNote={props.dayNote ?? ''}
+      projects={[]}
+      sessionDraft={EMPTY_SESSION_DRAFT}
+      locale="en-US"
+      {...handlers}
+    />
+  );
+  return handlers;
+};
+
+describe('ManualEntry', () => {
+  it('logs the chosen preset', async () => {
+    const user = userEvent.setup();
+    const { onLogHours } = renderEntry();
+    await user.click(screen.getByRole('button', { name: '3h' }));
+    await user.click(screen.getByRole('button', { name: 'Log Hours' }));
+    expect(onLogHours).toHaveBeenCalledWith(3);
+  });
+
+  it('keeps the chosen hours when logging fails', async () => {
+    const user = userEvent.setup();
+    renderEntry({ onLogHours: () => false });
+    await user.click(screen.getByRole('button', { name: '3h' }));
+    await user.click(screen.getByRole('button', { name: 'Log Hours' }));
+    expect(screen.getByRole('button', { name: '3h' })).toHaveClass('bg-green-500');
+  });
+
+  it('only allows removing hours from a logged day', async () => {
+    const user = userEvent.setup();
+    const { onRemoveHours } = renderEntry({ dayHours: 4 });
+    await user.click(screen.getByRole('button', { name: '2h' }));
+    await user.click(screen.getByRole('button', { name: 'Remove the selected hours' }));
+    expect(onRemoveHours).toHaveBeenCalledWith(2);
+    expect(screen.getByRole('button', { name: '2h' })).not.toHaveClass('bg-green-500');
+  });
+
+  it('keeps the chosen hours when removing fails', async () => {
+    const user = userEvent.setup();
+    renderEntry({ dayHours: 4, onRemoveHours: () => false });
+    await user.click(screen.getByRole('button', { name: '2h' }));
+    await user.click(screen.getByRole('button', { name: 'Remove the selected hours' }));
+    expect(screen.getByRole('button', { name: '2h' })).toHaveClass('bg-green-500');
+  });
+
+  it('disables removing on a day without hours', () => {
+    renderEntry();
+    expect(screen.getByRole('button', { name: 'Remove the selected hours' })).toBeDisabled();
+  });
+
+  it('picks another day from the date picker', async () => {
+    const user = userEvent.setup();
+    const { onSelectDate } = renderEntry();
+    await user.click(screen.getByRole('button', { name: 'Date: October 19, 2026' }));
+    const picker = screen.getByRole('dialog', { name: 'Choose a date' });
+    expect(picker).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'October 17, 2026' }));
+    expect(onSelectDate).toHaveBeenCalledWith('2026-10-17');
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+
+  it('shows the day note and opens the editor', async () => {
+    const user = userEvent.setup();
+    const { onEditNote } = renderEntry({ dayNote: 'Shipped **sync**' });
+    expect(screen.getByText('sync').tagName).toBe('STRONG');
+    await user.click(screen.getByRole('button', { name: 'Edit Note' }));
+    expect(onEditNote).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,254 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StickyNote, Trash2 } from 'lucide-react';
+import type { Project } from '../lib/projects';
+import type { SessionDraft } from '../lib/sessions';
+import { formatDay } from '../lib/locale';
+import { trapFocus } from '../lib/focus';
+import NoteMarkdown from './NoteMarkdown';
+
+interface ManualEntryProps {
+  selectedDate: string;
+  // Days offered by the date picker, latest first
+  selectableDates: string[];
+  // Hours already logged on the selected date
+  dayHours: number;
+  // The selected date's note, or empty when it has none
+  dayNote: string;
+  projects: Project[];
+  sessionDraft: SessionDraft;
+  locale: string;
+  onSelectDate: (date: string) => void;
+  onSessionDraftChange: (draft: SessionDraft) => void;
+  // Returns whether the hours were logged, so the form is only cleared on success
+  onLogHours: (hours: number) => boolean;
+  // Likewise returns whether any hours were removed
+  onRemoveHours: (hours: number) => boolean;
+  onAddSession: () => void;
+  onEditNote: () => void;
+}
+
+const HOUR_PRESETS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+function ManualEntry({
+  selectedDate,
+  selectableDates,
+  dayHours,
+  dayNote,
+  projects,
+  sessionDraft,
+  locale,
+  onSelectDate,
+  onSessionDraftChange,
+  onLogHours,
+  onRemoveHours,
+  onAddSession,
+  onEditNote
+}: ManualEntryProps) {
+  const [hours, setHours] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const datePickerToggleRef = useRef<HTMLButtonElement>(null);
+  const datePickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!showDatePicker) return;
+    const picker = datePickerRef.current;
+    (picker?.querySelector<HTMLElement>('[aria-current="date"]') ?? picker?.querySelector<HTMLElement>('button'))?.focus();
+  }, [showDatePicker]);
+
+  // Hands focus back to the button that opened the picker
+  const closeDatePicker = () => {
+    setShowDatePicker(false);
+    datePickerToggleRef.current?.focus();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onLogHours(parseFloat(hours))) {
+      setHours('');
+    }
+  };
+
+  const handleSessionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAddSession();
+  };
+
+  return (
+    <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
+      <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6">Manual Entry</h3>
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="relative">
+          <button
+            ref={datePickerToggleRef}
+            type="button"
+            aria-haspopup="dialog"
+            aria-expanded={showDatePicker}
+            aria-label={`Date: ${formatDay(selectedDate, locale, { year: 'numeric', month: 'long', day: 'numeric' })}`}
+            onClick={() => setShowDatePicker(!showDatePicker)}
+            className="w-full px-4 py-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors text-left"
+          >
+            {formatDay(selectedDate, locale, {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric'
+            })}
+          </button>
+          {showDatePicker && (
+            <div
+              className="fixed inset-0 bg-black/50 z-10"
+              onClick={closeDatePicker}
+            >
+              <div
+                ref={datePickerRef}
+                role="dialog"
+                aria-modal="true"
+                aria-label="Choose a date"
+                className="absolute z-20 mt-2 w-full max-h-60 overflow-y-auto bg-zinc-800 rounded-lg border border-green-500/20 shadow-lg"
+                onClick={e => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    e.preventDefault();
+                    closeDatePicker();
+                    return;
+                  }
+                  trapFocus(e.currentTarget, e);
+                }}
+              >
+                {selectableDates.map(date => (
+                  <button
+                    key={date}
+                    type="button"
+                    aria-current={date === selectedDate ? 'date' : undefined}
+                    onClick={() => {
+                      onSelectDate(date);
+                      closeDatePicker();
+                    }}
+                    className={`w-full px-4 py-2 text-left hover:bg-zinc-700 transition-colors ${
+                      date === selectedDate
+                        ? 'bg-green-500/20 text-green-400'
+                        : 'text-green-400'
+                    }`}
+                  >
+                    {formatDay(date, locale, {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric'
+                    })}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+          {HOUR_PRESETS.map(hour => (
+            <button
+              key={hour}
+              type="button"
+              onClick={() => setHours(hour.toString())}
+              className={`px-3 py-2 rounded-lg text-sm ${
+                hours === hour.toString()
+                  ? 'bg-green-500 text-black'
+                  : 'bg-zinc-700 text-green-400 hover:bg-zinc-600'
+              } transition-colors`}
+            >
+              {hour}h
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="flex-1 bg-green-600 text-black px-6 py-2 rounded-lg hover:bg-green-500 transition-colors text-xl"
+          >
+            Log Hours
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              const selectedHours = parseFloat(hours);
+              if (dayHours > 0 && !isNaN(selectedHours) && onRemoveHours(selectedHours)) {
+                setHours('');
+              }
+            }}
+            className={`px-6 py-2 ${
+              dayHours > 0
+                ? 'bg-red-600/20 text-red-400 hover:bg-red-600/30'
+                : 'bg-zinc-600/20 text-zinc-400 cursor-not-allowed'
+            } rounded-lg transition-colors`}
+            disabled={dayHours === 0}
+            aria-label="Remove the selected hours"
+          >
+            <Trash2 className="w-6 h-6" />
+          </button>
+        </div>
+      </form>
+      <div className="mt-4 pt-4 border-t border-green-500/20 flex items-start gap-3">
+        <button
+          type="button"
+          onClick={onEditNote}
+          className="shrink-0 flex items-center gap-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 px-4 py-2 rounded-lg transition-colors"
+        >
+          <StickyNote className="w-4 h-4" />
+          {dayNote ? 'Edit Note' : 'Add Note'}
+        </button>
+        {dayNote && (
+          <NoteMarkdown note={dayNote} className="pt-2 max-h-24 overflow-y-auto" />
+        )}
+      </div>
+      <form onSubmit={handleSessionSubmit} className="mt-4 pt-4 border-t border-green-500/20 grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Start
+          <input
+            type="time"
+            value={sessionDraft.start}
+            onChange={(e) => onSessionDraftChange({ ...sessionDraft, start: e.target.value })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+            required
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          End
+          <input
+            type="time"
+            value={sessionDraft.end}
+            onChange={(e) => onSessionDraftChange({ ...sessionDraft, end: e.target.value })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+            required
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Project
+          <select
+            value={sessionDraft.project}
+            onChange={(e) => onSessionDraftChange({ ...sessionDraft, project: e.target.value })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          >
+            <option value="">No project</option>
+            {projects.map(project => (
+              <option key={project.name} value={project.name}>{project.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Note
+          <input
+            type="text"
+            value={sessionDraft.note}
+            onChange={(e) => onSessionDraftChange({ ...sessionDraft, note: e.target.value })}
+            placeholder="Optional"
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg placeholder:text-green-400/30"
+          />
+        </label>
+        <button
+          type="submit"
+          className="col-span-2 sm:col-span-4 bg-green-500/10 hover:bg-green-500/20 text-green-400 px-6 py-2 rounded-lg transition-colors"
+        >
+          Log Session
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default ManualEntry;
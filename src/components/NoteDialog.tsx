@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { formatDay } from '../lib/locale';
+import { trapFocus } from '../lib/focus';
+import { MAX_NOTE_LENGTH } from '../lib/sessions';
+import NoteMarkdown from './NoteMarkdown';
+
+interface NoteDialogProps {
+  date: string;
+  // The note already saved for the day, if any
+  note: string;
+  locale: string;
+  // Returns whether the note was saved, so the dialog only closes on success
+  onSave: (note: string) => boolean;
+  onClose: () => void;
+}
+
+function NoteDialog({ date, note, locale, onSave, onClose }: NoteDialogProps) {
+  const [draft, setDraft] = useState(note);
+  const [showPreview, setShowPreview] = useState(false);
+  const dayLabel = formatDay(date, locale, { year: 'numeric', month: 'long', day: 'numeric' });
+
+  // Hands focus back to whatever opened the dialog
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    return () => opener?.focus();
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (onSave(draft)) {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-30 flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Note for ${dayLabel}`}
+        onSubmit={handleSubmit}
+        onClick={e => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+            return;
+          }
+          trapFocus(e.currentTarget, e);
+        }}
+        className="w-full max-w-lg bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20 shadow-lg"
+      >
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg text-green-400">Note for {dayLabel}</h3>
+          <button
+            type="button"
+            onClick={() => setShowPreview(!showPreview)}
+            className="text-sm text-green-400/70 hover:text-green-300 transition-colors"
+          >
+            {showPreview ? 'Edit' : 'Preview'}
+          </button>
+        </div>
+        {showPreview ? (
+          <div className="min-h-40 max-h-80 overflow-y-auto px-3 py-2 bg-zinc-700/50 rounded-lg">
+            {draft.trim() ? <NoteMarkdown note={draft} /> : <span className="text-sm text-green-400/50">Nothing to preview</span>}
+          </div>
+        ) : (
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_NOTE_LENGTH}
+            rows={8}
+            autoFocus
+            aria-label="Note"
+            placeholder="What did you work on? Markdown works: **bold**, *italic*, `code`, - lists, # headings and [links](https://…)"
+            className="w-full px-3 py-2 bg-zinc-700 text-green-400 rounded-lg placeholder:text-green-400/30 font-mono text-sm"
+          />
+        )}
+        <div className="flex items-center justify-between gap-2 mt-4">
+          <span className="text-xs text-green-400/50">{draft.length}/{MAX_NOTE_LENGTH}</span>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-green-600 text-black rounded-lg hover:bg-green-500 transition-colors"
+            >
+              Save Note
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default NoteDialog;
@@ -0,0 +1,66 @@
+import { InlineToken, parseMarkdown } from '../lib/markdown';
+
+interface NoteMarkdownProps {
+  note: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = {
+  1: 'text-base font-semibold',
+  2: 'text-sm font-semibold',
+  3: 'text-sm font-medium'
+};
+
+function Inline({ tokens }: { tokens: InlineToken[] }) {
+  return (
+    <>
+      {tokens.map((token, index) => {
+        switch (token.type) {
+          case 'bold':
+            return <strong key={index}>{token.text}</strong>;
+          case 'italic':
+            return <em key={index}>{token.text}</em>;
+          case 'code':
+            return <code key={index} className="px-1 rounded bg-zinc-900/60 font-mono text-xs">{token.text}</code>;
+          case 'link':
+            return (
+              <a key={index} href={token.href} target="_blank" rel="noopener noreferrer" className="underline hover:text-green-300">
+                {token.text}
+              </a>
+            );
+          default:
+            return token.text;
+        }
+      })}
+    </>
+  );
+}
+
+function NoteMarkdown({ note, className = '' }: NoteMarkdownProps) {
+  return (
+    <div className={`space-y-1 text-sm text-green-400/80 break-words ${className}`}>
+      {parseMarkdown(note).map((block, index) => {
+        if (block.type === 'heading') {
+          return (
+            <div key={index} className={`text-green-400 ${HEADING_CLASSES[block.level]}`}>
+              <Inline tokens={block.content} />
+            </div>
+          );
+        }
+        if (block.type === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={index} className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}><Inline tokens={item} /></li>
+              ))}
+            </List>
+          );
+        }
+        return <p key={index}><Inline tokens={block.content} /></p>;
+      })}
+    </div>
+  );
+}
+
+export default NoteMarkdown;
@@ -0,0 +1,40 @@
+interface ProgressRingProps {
+  label: string;
+  hours: number;
+  target: number;
+}
+
+const RADIUS = 26;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+function ProgressRing({ label, hours, target }: ProgressRingProps) {
+  const progress = target > 0 ? Math.min(hours / target, 1) : 0;
+
+  return (
+    <div className="flex flex-col items-center gap-1" title={`${label}: ${hours}h of ${target}h`}>
+      <div className="relative w-16 h-16">
+        <svg viewBox="0 0 64 64" className="w-16 h-16 -rotate-90">
+          <circle cx="32" cy="32" r={RADIUS} fill="none" strokeWidth="6" className="stroke-zinc-700" />
+          <circle
+            cx="32"
+            cy="32"
+            r={RADIUS}
+            fill="none"
+            strokeWidth="6"
+            strokeLinecap="round"
+            strokeDasharray={CIRCUMFERENCE}
+            strokeDashoffset={CIRCUMFERENCE * (1 - progress)}
+            className={progress >= 1 ? 'stroke-green-400' : 'stroke-green-600'}
+          />
+        </svg>
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-green-400">
+          {target > 0 ? `${Math.round(progress * 100)}%` : '–'}
+        </div>
+      </div>
+      <div className="text-xs text-green-400/70">{label}</div>
+      <div className="text-[10px] text-green-400/50">{hours}/{target}h</div>
+    </div>
+  );
+}
+
+export default ProgressRing;
@@ -0,0 +1,146 @@
+import { FormEvent, useState } from 'react';
+import { FolderKanban, Trash2 } from 'lucide-react';
+import { formatHours } from '../lib/locale';
+import { MAX_PROJECT_NAME_LENGTH, Project, ProjectHours, getProjectColor } from '../lib/projects';
+
+interface ProjectsPanelProps {
+  projects: Project[];
+  totals: ProjectHours[];
+  // Describes the period the totals cover
+  totalsLabel: string;
+  locale: string;
+  onAdd: (name: string) => void;
+  // Renames and recolours go through here, keyed by the project's current name
+  onChange: (name: string, project: Project) => void;
+  onDelete: (name: string) => void;
+}
+
+function ProjectRow({ project, onChange, onDelete }: {
+  project: Project;
+  onChange: (name: string, project: Project) => void;
+  onDelete: (name: string) => void;
+}) {
+  const [name, setName] = useState(project.name);
+
+  const commitName = () => {
+    if (name.trim() === project.name) {
+      setName(project.name);
+      return;
+    }
+    onChange(project.name, { ...project, name: name.trim() });
+    // The parent may reject the name; the row is re-keyed when it accepts it
+    setName(project.name);
+  };
+
+  return (
+    <li className="flex items-center gap-2">
+      <input
+        type="color"
+        value={project.color}
+        onChange={(e) => onChange(project.name, { ...project, color: e.target.value })}
+        aria-label={`Colour of ${project.name}`}
+        className="w-8 h-8 shrink-0 bg-transparent rounded cursor-pointer"
+      />
+      <input
+        type="text"
+        value={name}
+        maxLength={MAX_PROJECT_NAME_LENGTH}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={commitName}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        aria-label={`Name of ${project.name}`}
+        className="flex-1 min-w-0 px-3 py-1.5 bg-zinc-700 text-green-400 rounded-lg"
+      />
+      <button
+        onClick={() => onDelete(project.name)}
+        aria-label={`Delete ${project.name}`}
+        className="p-2 text-red-400 hover:bg-red-600/20 rounded-lg transition-colors"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </li>
+  );
+}
+
+function ProjectsPanel({ projects, totals, totalsLabel, locale, onAdd, onChange, onDelete }: ProjectsPanelProps) {
+  const [newName, setNewName] = useState('');
+  const grandTotal = totals.reduce((sum, { hours }) => sum + hours, 0);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    onAdd(newName.trim());
+    setNewName('');
+  };
+
+  return (
+    <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20 space-y-4">
+      <div className="flex items-center gap-2 text-lg sm:text-xl text-green-400 font-medium">
+        <FolderKanban className="w-5 h-5" />
+        Projects
+      </div>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          maxLength={MAX_PROJECT_NAME_LENGTH}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New project name"
+          aria-label="New project name"
+          className="flex-1 min-w-0 px-3 py-2 bg-zinc-700 text-green-400 rounded-lg placeholder:text-green-400/30"
+        />
+        <button
+          type="submit"
+          className="bg-green-500/10 hover:bg-green-500/20 text-green-400 px-4 py-2 rounded-lg transition-colors"
+        >
+          Add Project
+        </button>
+      </form>
+      {projects.length > 0 ? (
+        <ul className="space-y-2">
+          {projects.map(project => (
+            <ProjectRow key={project.name} project={project} onChange={onChange} onDelete={onDelete} />
+          ))}
+        </ul>
+      ) : (
+        <div className="text-xs text-green-400/50">
+          Add a project, then pick it when logging a session to see where your time goes.
+        </div>
+      )}
+      <div>
+        <div className="text-green-400/70 text-sm mb-2">{totalsLabel}</div>
+        {totals.length > 0 ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-green-400/60">
+                <th className="font-normal py-1">Project</th>
+                <th className="font-normal py-1 text-right">Hours</th>
+                <th className="font-normal py-1 text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {totals.map(({ project, hours }) => (
+                <tr key={project ?? ''} className="border-t border-green-500/10 text-green-400">
+                  <td className="py-1.5">
+                    <span className="inline-flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-sm" style={{ background: getProjectColor(projects, project) }} />
+                      {project ?? <span className="text-green-400/60">Unassigned</span>}
+                    </span>
+                  </td>
+                  <td className="py-1.5 text-right">{formatHours(hours, locale)}h</td>
+                  <td className="py-1.5 text-right text-green-400/60">
+                    {Math.round((hours / grandTotal) * 100)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="text-xs text-green-400/50">No hours logged in this period.</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProjectsPanel;
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react';
+import { Download, RefreshCw } from 'lucide-react';
+import { BeforeInstallPromptEvent, registerServiceWorker, requestPersistentStorage } from '../lib/pwa';
+
+interface PwaControlsProps {
+  // Flushes unsaved data before the page reloads into a new version
+  onBeforeUpdate: () => Promise<void>;
+}
+
+function PwaControls({ onBeforeUpdate }: PwaControlsProps) {
+  const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
+  const [activateUpdate, setActivateUpdate] = useState<(() => void) | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker(activate => setActivateUpdate(() => activate));
+    requestPersistentStorage().catch(err => console.error('Persistent storage request failed:', err));
+
+    const handleInstallPrompt = (e: Event) => {
+      e.preventDefault();
+      setInstallPrompt(e as BeforeInstallPromptEvent);
+    };
+    const handleInstalled = () => setInstallPrompt(null);
+
+    window.addEventListener('beforeinstallprompt', handleInstallPrompt);
+    window.addEventListener('appinstalled', handleInstalled);
+    return () => {
+      window.removeEventListener('beforeinstallprompt', handleInstallPrompt);
+      window.removeEventListener('appinstalled', handleInstalled);
+    };
+  }, []);
+
+  const install = async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    await installPrompt.userChoice;
+    setInstallPrompt(null);
+  };
+
+  const update = async () => {
+    if (!activateUpdate) return;
+    try {
+      await onBeforeUpdate();
+    } finally {
+      activateUpdate();
+    }
+  };
+
+  if (!installPrompt && !activateUpdate) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 flex flex-col gap-2 z-50">
+      {activateUpdate && (
+        <button
+          onClick={update}
+          className="bg-zinc-800 text-green-400 px-4 py-2 rounded-lg shadow-lg border border-green-500/20 hover:bg-zinc-700 transition-colors flex items-center gap-2"
+        >
+          <RefreshCw className="w-4 h-4" />
+          New version available – Reload
+        </button>
+      )}
+      {installPrompt && (
+        <button
+          onClick={install}
+          className="bg-zinc-800 text-green-400 px-4 py-2 rounded-lg shadow-lg border border-green-500/20 hover:bg-zinc-700 transition-colors flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          Install App
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default PwaControls;
@@ -0,0 +1,57 @@
+import { Minus, Plus } from 'lucide-react';
+import type { DaySession } from '../lib/timer';
+import { formatHours } from '../lib/locale';
+import SessionTimer from './SessionTimer';
+
+interface QuickAddProps {
+  todayHours: number;
+  locale: string;
+  onAdd: (amount: number) => void;
+  onTimerStop: (sessions: DaySession[]) => boolean;
+}
+
+const PRESETS = [1, 2, 4, 8];
+
+function QuickAdd({ todayHours, locale, onAdd, onTimerStop }: QuickAddProps) {
+  return (
+    <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
+      <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">Quick Add Hours</h3>
+      <div className="flex flex-wrap items-center gap-3 sm:gap-4">
+        <div className="flex items-center gap-2 flex-1 min-w-[200px] bg-zinc-700/50 p-2 rounded-lg">
+          <button
+            onClick={() => onAdd(-0.5)}
+            aria-label="Remove half an hour from today"
+            className="p-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+          >
+            <Minus className="w-5 h-5" />
+          </button>
+          <div className="flex-1 text-center">
+            <div className="text-sm text-green-400/70">Today's Hours</div>
+            <div className="text-2xl text-green-400">{formatHours(todayHours, locale)}h</div>
+          </div>
+          <button
+            onClick={() => onAdd(0.5)}
+            aria-label="Add half an hour to today"
+            className="p-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex gap-2 flex-1 min-w-[200px]">
+          {PRESETS.map(hours => (
+            <button
+              key={hours}
+              onClick={() => onAdd(hours)}
+              className="flex-1 bg-green-500/10 hover:bg-green-500/20 text-green-400 px-3 py-2 rounded-lg transition-colors text-sm"
+            >
+              +{hours}h
+            </button>
+          ))}
+        </div>
+      </div>
+      <SessionTimer onStop={onTimerStop} />
+    </div>
+  );
+}
+
+export default QuickAdd;
@@ -0,0 +1,45 @@
+import type { DayEntry } from '../types';
+import { formatDay, formatHours } from '../lib/locale';
+import BulkEditPanel from './BulkEditPanel';
+
+interface RangeStatsProps {
+  entries: DayEntry[];
+  // Both ends are set once two days have been picked on the calendar
+  start: string | null;
+  end: string | null;
+  totalHours: number;
+  today: string;
+  locale: string;
+  onBulkEdit: (entries: DayEntry[], message: string) => void;
+}
+
+function RangeStats({ entries, start, end, totalHours, today, locale, onBulkEdit }: RangeStatsProps) {
+  return (
+    <div className="bg-zinc-800 p-4 sm:p-6 rounded-xl border border-green-500/20">
+      <h3 className="text-lg sm:text-xl text-green-400 mb-4 sm:mb-6 font-medium">Date Range Stats</h3>
+      <div className="text-green-400/70 text-sm mb-2">
+        {start && end
+          ? `Selected: ${formatDay(start, locale, { month: 'long', day: 'numeric' })} - ${formatDay(end, locale, { month: 'long', day: 'numeric' })}`
+          : 'Click two dates on the calendar to see total hours between them'}
+      </div>
+      {start && end && (
+        <>
+          <div className="flex items-center justify-between bg-zinc-700/50 p-3 rounded-lg">
+            <span>Total Hours:</span>
+            <span className="text-2xl text-green-400">{formatHours(totalHours, locale)}h</span>
+          </div>
+          <BulkEditPanel
+            entries={entries}
+            start={start}
+            end={end}
+            today={today}
+            locale={locale}
+            onApply={onBulkEdit}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RangeStats;
@@ -0,0 +1,96 @@
+import { Bell } from 'lucide-react';
+import type { ReminderSettings as ReminderSettingsValue } from '../lib/settings';
+
+interface ReminderSettingsProps {
+  settings: ReminderSettingsValue;
+  onChange: (settings: ReminderSettingsValue) => void;
+  onError: (message: string) => void;
+}
+
+const dayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function ReminderSettings({ settings, onChange, onError }: ReminderSettingsProps) {
+  const supported = typeof window !== 'undefined' && 'Notification' in window;
+
+  const toggleEnabled = async () => {
+    if (settings.enabled) {
+      onChange({ ...settings, enabled: false });
+      return;
+    }
+
+    try {
+      const permission = Notification.permission === 'granted'
+        ? 'granted'
+        : await Notification.requestPermission();
+      if (permission !== 'granted') {
+        onError('Notifications are blocked. Allow them in your browser settings to get reminders.');
+        return;
+      }
+      onChange({ ...settings, enabled: true });
+    } catch {
+      onError('Failed to enable reminders. Please try again.');
+    }
+  };
+
+  const toggleDay = (day: number) => {
+    const days = settings.days.includes(day)
+      ? settings.days.filter(d => d !== day)
+      : [...settings.days, day].sort();
+    onChange({ ...settings, days });
+  };
+
+  return (
+    <div className="bg-zinc-700/50 p-4 rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-green-400">
+          <Bell className="w-5 h-5" />
+          Daily Reminder
+        </div>
+        <button
+          onClick={toggleEnabled}
+          disabled={!supported}
+          className={`px-4 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+            settings.enabled
+              ? 'bg-green-500 text-black hover:bg-green-400'
+              : 'bg-green-500/10 text-green-400 hover:bg-green-500/20'
+          }`}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Remind me at
+          <input
+            type="time"
+            value={settings.time}
+            onChange={(e) => e.target.value && onChange({ ...settings, time: e.target.value })}
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          />
+        </label>
+        <div className="flex flex-wrap gap-1">
+          {dayLabels.map((label, day) => (
+            <button
+              key={label}
+              onClick={() => toggleDay(day)}
+              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                settings.days.includes(day)
+                  ? 'bg-green-500/20 text-green-400'
+                  : 'bg-zinc-700 text-green-400/40 hover:text-green-400/70'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="text-xs text-green-400/50">
+        {supported
+          ? "You'll be reminded only on days with nothing logged. Reminders fire while the app is open in a tab or installed window."
+          : "This browser doesn't support notifications."}
+      </div>
+    </div>
+  );
+}
+
+export default ReminderSettings;
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Pause, Play, Square, X } from 'lucide-react';
+import {
+  DaySession,
+  EMPTY_TIMER,
+  TimerState,
+  formatElapsed,
+  getElapsedMs,
+  loadTimer,
+  saveTimer,
+  timerToSessions
+} from '../lib/timer';
+import { createLocalStorageBackend } from '../lib/storage';
+
+interface SessionTimerProps {
+  // Returns false when the sessions were rejected, leaving the timer untouched
+  onStop: (sessions: DaySession[]) => boolean;
+}
+
+const timerBackend = createLocalStorageBackend();
+
+function SessionTimer({ onStop }: SessionTimerProps) {
+  const [timer, setTimer] = useState<TimerState>(EMPTY_TIMER);
+  const [isTimerLoaded, setIsTimerLoaded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    loadTimer(timerBackend)
+      .then(setTimer)
+      .catch(err => console.error('Loading the timer failed:', err))
+      .finally(() => setIsTimerLoaded(true));
+  }, []);
+
+  // Nothing is written until the saved timer has loaded, so it isn't replaced by an empty one
+  useEffect(() => {
+    if (!isTimerLoaded) return;
+    saveTimer(timerBackend, timer).catch(err => console.error('Saving the timer failed:', err));
+  }, [timer, isTimerLoaded]);
+
+  useEffect(() => {
+    if (timer.runningSince === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer.runningSince]);
+
+  const isRunning = timer.runningSince !== null;
+  const hasTime = isRunning || timer.segments.length > 0;
+
+  const start = () => {
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimer({ ...timer, runningSince: startedAt });
+  };
+
+  const pause = () => {
+    if (timer.runningSince === null) return;
+    const pausedAt = Date.now();
+    setNow(pausedAt);
+    setTimer({
+      segments: [...timer.segments, { start: timer.runningSince, end: pausedAt }],
+      runningSince: null
+    });
+  };
+
+  const stop = () => {
+    if (onStop(timerToSessions(timer, Date.now()))) {
+      setTimer(EMPTY_TIMER);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-4 bg-zinc-700/50 p-2 rounded-lg">
+      <div className="flex-1 min-w-[120px] text-center">
+        <div className="text-sm text-green-400/70">Session Timer</div>
+        <div className={`text-2xl tabular-nums ${isRunning ? 'text-green-400' : 'text-green-400/60'}`}>
+          {formatElapsed(getElapsedMs(timer, now))}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        {isRunning ? (
+          <button
+            onClick={pause}
+            className="p-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors"
+            title="Pause timer"
+          >
+            <Pause className="w-5 h-5" />
+          </button>
+        ) : (
+          <button
+            onClick={start}
+            disabled={!isTimerLoaded}
+            className="p-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={hasTime ? 'Resume timer' : 'Start timer'}
+          >
+            <Play className="w-5 h-5" />
+          </button>
+        )}
+        <button
+          onClick={stop}
+          disabled={!hasTime}
+          className="p-2 bg-zinc-700 text-green-400 rounded-lg hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Stop and log session"
+        >
+          <Square className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => setTimer(EMPTY_TIMER)}
+          disabled={!hasTime}
+          className="p-2 bg-zinc-700 text-red-400 rounded-lg hover:bg-zinc-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Discard timer"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SessionTimer;
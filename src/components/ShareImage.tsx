@@ -0,0 +1,172 @@
+import type { CSSProperties } from 'react';
+import { getHeatmapWeeks, getIntensityLevel } from '../lib/heatmap';
+import { getDayOfMonth, getMonth } from '../lib/dates';
+import { formatHours, getMonthNames } from '../lib/locale';
+import { SHARE_TEMPLATES, ShareStat, ShareTemplate, ShareTheme } from '../lib/share';
+import type { WeekStart } from '../lib/settings';
+
+interface ShareImageProps {
+  id: string;
+  template: ShareTemplate;
+  theme: ShareTheme;
+  year: number;
+  // Heading of the month template, e.g. "March 2026"
+  monthTitle: string;
+  monthDays: { date: string; isCurrentMonth: boolean }[];
+  monthlyHours: number[];
+  totalHours: number;
+  stats: ShareStat[];
+  weekdayNames: string[];
+  locale: string;
+  weekStart: WeekStart;
+  getHours: (date: string) => number;
+}
+
+function StatTiles({ stats, theme, size }: { stats: ShareStat[]; theme: ShareTheme; size: 'small' | 'large' }) {
+  return (
+    <>
+      {stats.map(stat => (
+        <div
+          key={stat.label}
+          className={`rounded-lg flex flex-col ${size === 'large' ? 'px-6 py-4' : 'px-5 py-3 items-end'}`}
+          style={{ background: theme.surface, border: `1px solid ${theme.border}` }}
+        >
+          <div className={size === 'large' ? 'text-lg' : 'text-sm'} style={{ color: theme.muted }}>{stat.label}</div>
+          <div className={size === 'large' ? 'text-4xl' : 'text-2xl'} style={{ color: theme.text }}>{stat.value}</div>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function ShareImage({
+  id,
+  template,
+  theme,
+  year,
+  monthTitle,
+  monthDays,
+  monthlyHours,
+  totalHours,
+  stats,
+  weekdayNames,
+  locale,
+  weekStart,
+  getHours
+}: ShareImageProps) {
+  const { width, height } = SHARE_TEMPLATES[template];
+  const monthNames = getMonthNames(locale, 'short');
+  const rootStyle: CSSProperties = { fontFamily: 'inherit', width, height, background: theme.background, color: theme.text };
+  const panelStyle: CSSProperties = { background: theme.surface, border: `1px solid ${theme.border}` };
+
+  if (template === 'card') {
+    const maxMonth = Math.max(...monthlyHours, 1);
+    return (
+      <div id={id} className="p-16 flex flex-col justify-between" style={rootStyle}>
+        <div className="flex items-start justify-between gap-8">
+          <div>
+            <div className="text-3xl" style={{ color: theme.muted }}>Did You Code? · {year}</div>
+            <div className="text-8xl font-semibold mt-4">{formatHours(totalHours, locale)}h</div>
+            <div className="text-2xl mt-2" style={{ color: theme.muted }}>spent coding in {year}</div>
+          </div>
+          <div className="grid grid-cols-2 gap-4 w-[460px]">
+            <StatTiles stats={stats} theme={theme} size="large" />
+          </div>
+        </div>
+        <div className="flex items-end gap-3 h-40">
+          {monthlyHours.map((hours, month) => (
+            <div key={month} className="flex-1 flex flex-col items-center justify-end gap-2 h-full">
+              <div
+                className="w-full rounded-t"
+                style={{ height: `${(hours / maxMonth) * 100}%`, background: theme.levels[3] }}
+              />
+              <div className="text-base" style={{ color: theme.muted }}>{monthNames[month]}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="flex items-center justify-between">
+      <h1 className="text-4xl font-semibold">{year} Did You Code?</h1>
+      <div className="flex items-center gap-4">
+        <StatTiles stats={stats} theme={theme} size="small" />
+      </div>
+    </div>
+  );
+
+  if (template === 'year') {
+    const weeks = getHeatmapWeeks(year, weekStart);
+    return (
+      <div id={id} className="p-8 flex flex-col gap-6" style={rootStyle}>
+        {header}
+        <div className="p-6 rounded-xl flex-1 flex flex-col justify-center gap-2" style={panelStyle}>
+          <div className="flex gap-[3px]">
+            {weeks.map((week, index) => {
+              const monthStart = week.find(day => day.inYear && day.date.endsWith('-01'));
+              return (
+                <div key={index} className="flex-1 min-w-0 text-xs whitespace-nowrap" style={{ color: theme.muted }}>
+                  {monthStart ? monthNames[getMonth(monthStart.date)] : ''}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-[3px]">
+            {weeks.map((week, index) => (
+              <div key={index} className="flex flex-col gap-[3px] flex-1 min-w-0">
+                {week.map(({ date, inYear }) => (
+                  <div
+                    key={date}
+                    className="aspect-square w-full rounded-sm"
+                    style={{ background: inYear ? theme.levels[getIntensityLevel(getHours(date))] : 'transparent' }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div id={id} className="p-8 flex flex-col gap-6" style={rootStyle}>
+      {header}
+      <div className="p-6 rounded-xl" style={panelStyle}>
+        <h2 className="text-2xl mb-4">{monthTitle}</h2>
+        <div className="grid grid-cols-7 gap-2 mb-2">
+          {weekdayNames.map(day => (
+            <div key={day} className="text-center text-sm" style={{ color: theme.muted }}>
+              {day}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-7 gap-2">
+          {monthDays.map(({ date, isCurrentMonth }) => {
+            const hours = isCurrentMonth ? getHours(date) : 0;
+            return (
+              <div
+                key={date}
+                className="aspect-square p-1 rounded-lg flex flex-col items-center justify-between"
+                style={isCurrentMonth ? { border: `1px solid ${theme.border}` } : undefined}
+              >
+                <span className="text-sm" style={{ color: isCurrentMonth ? theme.text : 'transparent' }}>
+                  {getDayOfMonth(date)}
+                </span>
+                {hours > 0 && <span className="text-xs">{formatHours(hours, locale)}h</span>}
+                <div
+                  className="w-full h-1.5 rounded-full"
+                  style={{ background: hours > 0 ? theme.levels[getIntensityLevel(hours)] : 'transparent' }}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ShareImage;
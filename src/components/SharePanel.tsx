@@ -0,0 +1,123 @@
+import type { ReactNode } from 'react';
+import { Download, Share2 } from 'lucide-react';
+import type { ShareSettings } from '../lib/settings';
+import {
+  MAX_SHARE_STATS,
+  SHARE_STAT_LABELS,
+  SHARE_TEMPLATES,
+  SHARE_THEMES,
+  ShareStatId,
+  ShareTemplate,
+  ShareThemeId
+} from '../lib/share';
+
+interface SharePanelProps {
+  settings: ShareSettings;
+  onChange: (settings: ShareSettings) => void;
+  onSave: () => void;
+  onShare: () => void;
+  isBusy: boolean;
+  // The rendered share image, shown scaled down as a preview
+  children: ReactNode;
+}
+
+const PREVIEW_WIDTH = 360;
+
+function SharePanel({ settings, onChange, onSave, onShare, isBusy, children }: SharePanelProps) {
+  const { width, height } = SHARE_TEMPLATES[settings.template];
+  const scale = PREVIEW_WIDTH / width;
+
+  const toggleStat = (stat: ShareStatId) => {
+    const stats = settings.stats.includes(stat)
+      ? settings.stats.filter(s => s !== stat)
+      : [...settings.stats, stat];
+    onChange({ ...settings, stats });
+  };
+
+  return (
+    <div className="flex flex-col md:flex-row gap-6">
+      <div className="flex-1 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="flex flex-col gap-1 text-sm text-green-400/70">
+            Template
+            <select
+              value={settings.template}
+              onChange={(e) => onChange({ ...settings, template: e.target.value as ShareTemplate })}
+              className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+            >
+              {(Object.keys(SHARE_TEMPLATES) as ShareTemplate[]).map(template => (
+                <option key={template} value={template}>{SHARE_TEMPLATES[template].label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-green-400/70">
+            Theme
+            <select
+              value={settings.theme}
+              onChange={(e) => onChange({ ...settings, theme: e.target.value as ShareThemeId })}
+              className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+            >
+              {(Object.keys(SHARE_THEMES) as ShareThemeId[]).map(theme => (
+                <option key={theme} value={theme}>{SHARE_THEMES[theme].label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="space-y-2">
+          <div className="text-sm text-green-400/70">
+            Stats to show ({settings.stats.length}/{MAX_SHARE_STATS})
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(SHARE_STAT_LABELS) as ShareStatId[]).map(stat => {
+              const selected = settings.stats.includes(stat);
+              return (
+                <button
+                  key={stat}
+                  onClick={() => toggleStat(stat)}
+                  disabled={!selected && settings.stats.length >= MAX_SHARE_STATS}
+                  aria-pressed={selected}
+                  className={`px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    selected
+                      ? 'bg-green-500/20 text-green-400'
+                      : 'bg-zinc-700 text-green-400/40 hover:text-green-400/70'
+                  }`}
+                >
+                  {SHARE_STAT_LABELS[stat]}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onSave}
+            disabled={isBusy}
+            className="px-4 py-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-5 h-5" />
+            Save as PNG
+          </button>
+          <button
+            onClick={onShare}
+            disabled={isBusy}
+            className="px-4 py-2 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Share2 className="w-5 h-5" />
+            Share
+          </button>
+        </div>
+      </div>
+      <div
+        className="shrink-0 self-center overflow-hidden rounded-lg border border-green-500/20"
+        style={{ width: PREVIEW_WIDTH, height: height * scale }}
+        aria-hidden="true"
+      >
+        <div style={{ transform: `scale(${scale})`, transformOrigin: 'top left', width, height }}>
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SharePanel;
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { toPng } from 'html-to-image';
+import type { Analytics } from '../lib/analytics';
+import type { ShareSettings, WeekStart } from '../lib/settings';
+import { getMonthDays } from '../lib/calendar';
+import { getToday } from '../lib/dates';
+import { formatHours } from '../lib/locale';
+import {
+  SHARE_TEMPLATES,
+  SHARE_THEMES,
+  canShareFile,
+  dataUrlToFile,
+  getShareFileName,
+  getShareStats
+} from '../lib/share';
+import SharePanel from './SharePanel';
+import ShareImage from './ShareImage';
+
+interface ShareSectionProps {
+  settings: ShareSettings;
+  year: number;
+  thisYear: number;
+  // 0-based month shown by the month template
+  month: number;
+  monthHours: number;
+  yearHours: number;
+  analytics: Analytics;
+  monthNames: string[];
+  weekdayNames: string[];
+  locale: string;
+  weekStart: WeekStart;
+  getHours: (date: string) => number;
+  onChange: (settings: ShareSettings) => void;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const IMAGE_ID = 'exportable-calendar';
+
+function ShareSection({
+  settings,
+  year,
+  thisYear,
+  month,
+  monthHours,
+  yearHours,
+  analytics,
+  monthNames,
+  weekdayNames,
+  locale,
+  weekStart,
+  getHours,
+  onChange,
+  onSuccess,
+  onError
+}: ShareSectionProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const theme = SHARE_THEMES[settings.theme];
+
+  const renderImage = async (): Promise<string | null> => {
+    const exportRef = document.getElementById(IMAGE_ID);
+    if (!exportRef) {
+      onError('Could not find calendar element to export');
+      return null;
+    }
+
+    const { width, height } = SHARE_TEMPLATES[settings.template];
+    return toPng(exportRef, {
+      quality: 1.0,
+      backgroundColor: theme.background,
+      width,
+      height,
+      style: {
+        transform: 'scale(1)',
+        transformOrigin: 'top left'
+      },
+      pixelRatio: 2
+    });
+  };
+
+  const downloadImage = (dataUrl: string) => {
+    try {
+      const link = document.createElement('a');
+      link.download = getShareFileName(year, getToday());
+      link.href = dataUrl;
+      link.click();
+      onSuccess('Image downloaded successfully!');
+    } catch (err) {
+      console.error('Download failed:', err);
+      onError('Failed to download image. Please try again.');
+    }
+  };
+
+  const shareImage = async () => {
+    setIsExporting(true);
+    try {
+      const dataUrl = await renderImage();
+      if (!dataUrl) return;
+
+      const shareText = `I've coded ${formatHours(yearHours, locale)} hours in ${year}! 💻✨\nThis month: ${formatHours(monthHours, locale)} hours\n#CodingJourney #Code${year}`;
+
+      const file = await dataUrlToFile(dataUrl, getShareFileName(year, getToday()));
+      if (canShareFile(file)) {
+        try {
+          await navigator.share({ files: [file], title: 'Did You Code?', text: shareText });
+          return;
+        } catch (err) {
+          if (err instanceof DOMException && err.name === 'AbortError') return;
+          // Sharing can still be refused, e.g. when rendering took too long after the click
+          console.error('Web Share failed:', err);
+        }
+      }
+
+      // Without file sharing, download the PNG and open a tweet to attach it to
+      downloadImage(dataUrl);
+      window.location.href = `https://twitter.com/intent/tweet?text=${encodeURIComponent(shareText)}`;
+
+      onSuccess('PNG downloaded! You can now attach it to your tweet.');
+    } catch (err) {
+      console.error('Export failed:', err);
+      onError('Failed to export image. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const savePNG = async () => {
+    // Validate current state before export
+    if (yearHours === 0) {
+      onError('No hours logged yet to export');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const dataUrl = await renderImage();
+      if (dataUrl) {
+        downloadImage(dataUrl);
+      }
+    } catch (err) {
+      console.error('Save PNG failed:', err);
+      onError('Failed to save image. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <SharePanel
+      settings={settings}
+      onChange={onChange}
+      onSave={savePNG}
+      onShare={shareImage}
+      isBusy={isExporting}
+    >
+      <ShareImage
+        id={IMAGE_ID}
+        template={settings.template}
+        theme={theme}
+        year={year}
+        monthTitle={`${monthNames[month]} ${year}`}
+        monthDays={getMonthDays(year, month, weekStart)}
+        monthlyHours={analytics.monthlyHours}
+        totalHours={yearHours}
+        stats={getShareStats(settings.stats, { year, thisYear, monthHours, yearHours, analytics }, locale)}
+        weekdayNames={weekdayNames}
+        locale={locale}
+        weekStart={weekStart}
+        getHours={getHours}
+      />
+    </SharePanel>
+  );
+}
+
+export default ShareSection;
@@ -0,0 +1,75 @@
+import { Clock } from 'lucide-react';
+import { formatHours } from '../lib/locale';
+import type { GoalProgress } from '../lib/goals';
+import ProgressRing from './ProgressRing';
+
+interface StatsHeaderProps {
+  selectedYear: number;
+  thisYear: number;
+  availableYears: number[];
+  monthHours: number;
+  yearHours: number;
+  // Only shown once a goal has been set
+  goalProgress: Record<'day' | 'week' | 'year', GoalProgress> | null;
+  locale: string;
+  onSelectYear: (year: number) => void;
+}
+
+function StatsHeader({
+  selectedYear,
+  thisYear,
+  availableYears,
+  monthHours,
+  yearHours,
+  goalProgress,
+  locale,
+  onSelectYear
+}: StatsHeaderProps) {
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row items-center justify-between mb-6 sm:mb-8 gap-4">
+        <div className="flex items-center gap-3">
+          <h1 className="text-2xl sm:text-3xl md:text-4xl text-green-400 text-center sm:text-left font-semibold">
+            {selectedYear} Did You Code?
+          </h1>
+          <select
+            value={selectedYear}
+            onChange={(e) => onSelectYear(parseInt(e.target.value, 10))}
+            className="bg-zinc-800 text-green-400 px-2 py-1 rounded-lg border border-green-500/20 hover:bg-zinc-700 transition-colors"
+            aria-label="Select year"
+          >
+            {availableYears.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2 bg-zinc-800 px-4 sm:px-6 py-2 sm:py-3 rounded-lg border border-green-500/20">
+            <Clock className="w-5 h-5 sm:w-6 sm:h-6 text-green-400" />
+            <div className="flex flex-col items-end">
+              <div className="text-sm text-green-400/70">This Month</div>
+              <div className="text-xl sm:text-2xl text-green-400">{formatHours(monthHours, locale)}h</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 bg-zinc-800 px-4 sm:px-6 py-2 sm:py-3 rounded-lg border border-green-500/20">
+            <Clock className="w-5 h-5 sm:w-6 sm:h-6 text-green-400" />
+            <div className="flex flex-col items-end">
+              <div className="text-sm text-green-400/70">{selectedYear === thisYear ? 'This Year' : selectedYear}</div>
+              <div className="text-xl sm:text-2xl text-green-400">{formatHours(yearHours, locale)}h</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {goalProgress && (
+        <div className="flex items-center justify-center sm:justify-end gap-6 -mt-2 mb-6">
+          <ProgressRing label="Today" hours={goalProgress.day.hours} target={goalProgress.day.target} />
+          <ProgressRing label="This Week" hours={goalProgress.week.hours} target={goalProgress.week.target} />
+          <ProgressRing label={`${selectedYear}`} hours={goalProgress.year.hours} target={goalProgress.year.target} />
+        </div>
+      )}
+    </>
+  );
+}
+
+export default StatsHeader;
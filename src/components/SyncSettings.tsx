@@ -0,0 +1,89 @@
+import { Cloud, RefreshCw } from 'lucide-react';
+import type { SyncSettings as SyncSettingsValue } from '../lib/settings';
+import type { SyncStatus } from '../lib/storage';
+import { formatDay } from '../lib/locale';
+import { toDateKey } from '../lib/dates';
+
+interface SyncSettingsProps {
+  settings: SyncSettingsValue;
+  status: SyncStatus & { syncing: boolean; error: string | null };
+  locale: string;
+  onChange: (settings: SyncSettingsValue) => void;
+  onSyncNow: () => void;
+}
+
+const formatSyncedAt = (timestamp: number, locale: string) => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+  return `${formatDay(toDateKey(date), locale, { month: 'short', day: 'numeric' })}, ${time}`;
+};
+
+function SyncSettings({ settings, status, locale, onChange, onSyncNow }: SyncSettingsProps) {
+  return (
+    <div className="bg-zinc-700/50 p-4 rounded-lg space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 text-green-400">
+          <Cloud className="w-5 h-5" />
+          Sync
+        </div>
+        <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          disabled={!settings.enabled && !settings.url.trim()}
+          className={`px-4 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+            settings.enabled
+              ? 'bg-green-500 text-black hover:bg-green-400'
+              : 'bg-green-500/10 text-green-400 hover:bg-green-500/20'
+          }`}
+        >
+          {settings.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Server address
+          <input
+            type="url"
+            value={settings.url}
+            onChange={(e) => onChange({ ...settings, url: e.target.value })}
+            placeholder="http://localhost:8787"
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg placeholder:text-green-400/30"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-green-400/70">
+          Token
+          <input
+            type="password"
+            value={settings.token}
+            onChange={(e) => onChange({ ...settings, token: e.target.value })}
+            autoComplete="off"
+            className="px-3 py-2 bg-zinc-700 text-green-400 rounded-lg"
+          />
+        </label>
+      </div>
+      {settings.enabled && (
+        <div className="flex items-center justify-between gap-4">
+          <div className={`text-sm ${status.error ? 'text-red-400' : 'text-green-400/70'}`}>
+            {status.error ?? (status.lastSyncedAt
+              ? `Last synced ${formatSyncedAt(status.lastSyncedAt, locale)}`
+              : 'Not synced yet')}
+            {status.pending > 0 && ` · ${status.pending} ${status.pending === 1 ? 'day' : 'days'} waiting to sync`}
+          </div>
+          <button
+            onClick={onSyncNow}
+            disabled={status.syncing}
+            className="px-4 py-2 bg-green-500/10 hover:bg-green-500/20 text-green-400 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${status.syncing ? 'animate-spin' : ''}`} />
+            Sync now
+          </button>
+        </div>
+      )}
+      <div className="text-xs text-green-400/50">
+        Keeps your hours in step across devices through a server you run yourself with{' '}
+        <code>SYNC_TOKEN=your-token npm run server</code>. Edits made offline are kept and sent once the server is reachable.
+      </div>
+    </div>
+  );
+}
+
+export default SyncSettings;
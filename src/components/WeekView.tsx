@@ -0,0 +1,61 @@
+import type { WeekSummary } from '../lib/weeks';
+import { formatDay, formatHours } from '../lib/locale';
+
+interface WeekViewProps {
+  summary: WeekSummary;
+  locale: string;
+  today: string;
+  isSelectable: (date: string) => boolean;
+  onSelectDate: (date: string) => void;
+}
+
+// Bars are scaled to a full working day at least, so a light week doesn't look busy
+const MIN_SCALE_HOURS = 8;
+
+function WeekView({ summary, locale, today, isSelectable, onSelectDate }: WeekViewProps) {
+  const max = Math.max(...summary.days.map(day => day.hours), MIN_SCALE_HOURS);
+  const activeDays = summary.days.filter(day => day.hours > 0).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-7 gap-1 sm:gap-2 h-48">
+        {summary.days.map(({ date, hours }) => {
+          const selectable = isSelectable(date);
+          return (
+            <button
+              key={date}
+              onClick={() => selectable && onSelectDate(date)}
+              disabled={!selectable}
+              title={`${formatDay(date, locale, { weekday: 'long', month: 'long', day: 'numeric' })}: ${formatHours(hours, locale)}h`}
+              className={`flex flex-col items-center justify-end gap-1 h-full p-1 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed enabled:hover:bg-zinc-700/50 ${
+                date === today ? 'ring-2 ring-green-400 ring-offset-2 ring-offset-zinc-800' : ''
+              }`}
+            >
+              <div className="text-[10px] sm:text-xs text-green-400/70">{hours > 0 ? `${formatHours(hours, locale)}h` : ''}</div>
+              <div className="w-full flex-1 flex items-end">
+                <div
+                  className="w-full bg-green-500/60 rounded-t"
+                  style={{ height: `${(hours / max) * 100}%` }}
+                />
+              </div>
+              <div className="text-xs sm:text-sm text-green-400">{formatDay(date, locale, { weekday: 'short' })}</div>
+              <div className="text-[10px] sm:text-xs text-green-400/60">{formatDay(date, locale, { day: 'numeric' })}</div>
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex items-center justify-between bg-zinc-700/50 p-3 rounded-lg">
+        <div>
+          <div className="text-sm text-green-400/70">Weekly Total</div>
+          <div className="text-xl sm:text-2xl text-green-400">{formatHours(summary.total, locale)}h</div>
+        </div>
+        <div className="text-right">
+          <div className="text-sm text-green-400/70">Active Days</div>
+          <div className="text-xl sm:text-2xl text-green-400">{activeDays} / 7</div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default WeekView;
@@ -0,0 +1,98 @@
+import { getHeatmapWeeks, getIntensityLevel } from '../lib/heatmap';
+import { formatDay, formatHours, getMonthNames, getWeekdayNames } from '../lib/locale';
+import type { WeekStart } from '../lib/settings';
+
+interface YearHeatmapProps {
+  year: number;
+  locale: string;
+  weekStart: WeekStart;
+  getHours: (date: string) => number;
+  isSelectable: (date: string) => boolean;
+  // Omitted for the static copy rendered into exported images
+  onSelectDate?: (date: string) => void;
+}
+
+const levelClasses = [
+  'bg-zinc-700/50',
+  'bg-green-900',
+  'bg-green-700',
+  'bg-green-500',
+  'bg-green-400'
+];
+
+function YearHeatmap({ year, locale, weekStart, getHours, isSelectable, onSelectDate }: YearHeatmapProps) {
+  const weeks = getHeatmapWeeks(year, weekStart);
+  // Every other row is labelled to keep the column narrow
+  const weekdayLabels = getWeekdayNames(locale, weekStart).map((name, index) => (index % 2 === 1 ? name : ''));
+  const monthNames = getMonthNames(locale, 'short');
+
+  return (
+    <div className="space-y-2 min-w-[600px]">
+      <div className="flex gap-1">
+        <div className="w-6 shrink-0" />
+        <div className="flex gap-[3px] flex-1">
+          {weeks.map((week, index) => {
+            const monthStart = week.find(day => day.inYear && day.date.endsWith('-01'));
+            return (
+              <div key={index} className="flex-1 min-w-0 text-[10px] text-green-400/60 overflow-visible whitespace-nowrap">
+                {monthStart ? monthNames[parseInt(monthStart.date.slice(5, 7), 10) - 1] : ''}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="flex gap-1">
+        <div className="w-6 shrink-0 flex flex-col gap-[3px]">
+          {weekdayLabels.map((label, index) => (
+            <div key={index} className="flex-1 flex items-center text-[10px] text-green-400/60">{label}</div>
+          ))}
+        </div>
+        <div className="flex gap-[3px] flex-1">
+          {weeks.map((week, index) => (
+            <div key={index} className="flex flex-col gap-[3px] flex-1 min-w-0">
+              {week.map(({ date, inYear }) => {
+                if (!inYear) {
+                  return <div key={date} className="aspect-square w-full" />;
+                }
+
+                const hours = getHours(date);
+                const selectable = isSelectable(date);
+                const label = `${formatDay(date, locale, {
+                  month: 'long',
+                  day: 'numeric',
+                  year: 'numeric'
+                })}: ${formatHours(hours, locale)}h`;
+                const className = `aspect-square w-full rounded-sm ${levelClasses[getIntensityLevel(hours)]} ${
+                  selectable ? '' : 'opacity-30'
+                }`;
+
+                return onSelectDate ? (
+                  <button
+                    key={date}
+                    type="button"
+                    title={label}
+                    aria-label={label}
+                    disabled={!selectable}
+                    onClick={() => onSelectDate(date)}
+                    className={`${className} hover:ring-1 hover:ring-green-300 disabled:cursor-not-allowed`}
+                  />
+                ) : (
+                  <div key={date} title={label} className={className} />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-end gap-1 text-[10px] text-green-400/60">
+        Less
+        {levelClasses.map(levelClass => (
+          <div key={levelClass} className={`w-3 h-3 rounded-sm ${levelClass}`} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+}
+
+export default YearHeatmap;
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import type { ReminderSettings } from '../lib/settings';
+import { getToday } from '../lib/dates';
+import { QuickAddRequest, getNextReminderTime, showReminder, takeQuickAddFromUrl } from '../lib/reminders';
+
+/**
+ * Shows the end-of-day reminder when nothing has been logged today, and
+ * applies the quick add tapped on one to the day it was shown for. Both are
+ * re-armed on every render so they always see the latest entries. A quick add
+ * that arrives in the URL is held as `pendingQuickAdd` until it's confirmed.
+ */
+export const useReminders = (
+  settings: ReminderSettings,
+  isLoaded: boolean,
+  hasLoggedToday: () => boolean,
+  onQuickAdd: (date: string, hours: number) => void
+) => {
+  const [pendingQuickAdd, setPendingQuickAdd] = useState<QuickAddRequest | null>(null);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const next = getNextReminderTime(settings, new Date());
+    if (!next) return;
+
+    const timer = setTimeout(() => {
+      if (!('Notification' in window) || Notification.permission !== 'granted') return;
+      if (hasLoggedToday()) return;
+      showReminder(getToday()).catch(err => console.error('Showing reminder failed:', err));
+    }, next.getTime() - Date.now());
+    return () => clearTimeout(timer);
+  });
+
+  // Quick actions on a reminder arrive as a URL parameter when no window was open
+  useEffect(() => {
+    if (!isLoaded) return;
+    // Removes the parameters, so this only asks once
+    const fromUrl = takeQuickAddFromUrl();
+    if (fromUrl) {
+      setPendingQuickAdd(fromUrl);
+    }
+  }, [isLoaded]);
+
+  // ...and as a message otherwise
+  useEffect(() => {
+    if (!isLoaded || !('serviceWorker' in navigator)) return;
+    // Only the service worker can post these, so they're applied straight away
+    const handleMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'QUICK_ADD' && typeof e.data.hours === 'number' && typeof e.data.date === 'string') {
+        onQuickAdd(e.data.date, e.data.hours);
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  });
+
+  return {
+    pendingQuickAdd,
+    confirmQuickAdd: () => {
+      if (pendingQuickAdd) onQuickAdd(pendingQuickAdd.date, pendingQuickAdd.hours);
+      setPendingQuickAdd(null);
+    },
+    dismissQuickAdd: () => setPendingQuickAdd(null)
+  };
+};
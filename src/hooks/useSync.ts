@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+import type { DayEntry } from '../types';
+import type { SyncSettings } from '../lib/settings';
+import { SYNC_DELAY_MS, SYNC_INTERVAL_MS, SyncStatus, syncClient } from '../lib/storage';
+
+export type SyncState = SyncStatus & { syncing: boolean; error: string | null };
+
+/**
+ * Keeps the entries in step with the sync server. Local edits are recorded
+ * as pending and sent shortly after they're made, on an interval and when the
+ * browser comes back online; days changed on other devices come back through
+ * `setEntries`. Nothing is tracked until the stored entries have loaded.
+ */
+export const useSync = (
+  entries: DayEntry[],
+  setEntries: (entries: DayEntry[]) => void,
+  settings: SyncSettings,
+  isLoaded: boolean
+) => {
+  const [status, setStatus] = useState<SyncState>({
+    pending: 0,
+    lastSyncedAt: null,
+    syncing: false,
+    error: null
+  });
+  // The entries the sync client has already seen, so only real edits are marked for upload
+  const trackedEntriesRef = useRef<DayEntry[] | null>(null);
+  // Read by a sync once the server replies, to merge into whatever is current by then
+  const entriesRef = useRef<DayEntry[]>(entries);
+  const isSyncingRef = useRef(false);
+
+  useEffect(() => {
+    entriesRef.current = entries;
+    if (!isLoaded || entries === trackedEntriesRef.current) return;
+    const before = trackedEntriesRef.current;
+    trackedEntriesRef.current = entries;
+    // The entries just read from storage aren't an edit
+    if (!before) return;
+    syncClient.track(before, entries)
+      .then(() => syncClient.getStatus())
+      .then(next => setStatus(current => ({ ...current, ...next })))
+      .catch(err => console.error('Tracking changes for sync failed:', err));
+  }, [entries, isLoaded]);
+
+  const syncNow = async () => {
+    if (!isLoaded || !settings.enabled || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    setStatus(current => ({ ...current, syncing: true }));
+    let error: string | null = null;
+    try {
+      const result = await syncClient.sync(settings, () => entriesRef.current);
+      if (result.pulled > 0) {
+        // Changes from other devices aren't local edits, so they aren't tracked or sent back
+        trackedEntriesRef.current = result.entries;
+        setEntries(result.entries);
+      }
+    } catch (err) {
+      console.error('Sync failed:', err);
+      error = err instanceof Error ? err.message : 'Sync failed. Please try again.';
+    } finally {
+      isSyncingRef.current = false;
+    }
+    const next = await syncClient.getStatus();
+    setStatus({ ...next, syncing: false, error });
+  };
+
+  // Lets the timer and listeners below, set up once, call the latest syncNow
+  const syncNowRef = useRef(syncNow);
+  useEffect(() => {
+    syncNowRef.current = syncNow;
+  });
+
+  useEffect(() => {
+    const sync = () => {
+      syncNowRef.current();
+    };
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', sync);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', sync);
+    };
+  }, []);
+
+  // Sends edits shortly after they're made, and syncs as soon as sync is set up
+  useEffect(() => {
+    if (!isLoaded || !settings.enabled) return;
+    const timer = setTimeout(() => syncNowRef.current(), SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [entries, isLoaded, settings]);
+
+  return { status, syncNow };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { DayEntry } from '../types';
+import { getAnalytics, getBestWeek, getCurrentStreak, getLongestStreak, getMonthlyHours } from './analytics';
+
+const days = (...dates: string[]): DayEntry[] => dates.map(date => ({ date, hours: 1 }));
+
+describe('getCurrentStreak', () => {
+  it('counts back from today', () => {
+    expect(getCurrentStreak(days('2026-10-17', '2026-10-18', '2026-10-19'), '2026-10-19')).toBe(3);
+  });
+
+  it('keeps the streak alive while today is unlogged', () => {
+    expect(getCurrentStreak(days('2026-10-16', '2026-10-17', '2026-10-18'), '2026-10-19')).toBe(3);
+  });
+
+  it('is broken by a missed yesterday', () => {
+    expect(getCurrentStreak(days('2026-10-16', '2026-10-17'), '2026-10-19')).toBe(0);
+  });
+
+  it('ignores days logged with 0 hours', () => {
+    const entries = [...days('2026-10-17'), { date: '2026-10-18', hours: 0 }, ...days('2026-10-19')];
+    expect(getCurrentStreak(entries, '2026-10-19')).toBe(1);
+  });
+
+  it('runs across the new year', () => {
+    expect(getCurrentStreak(days('2025-12-30', '2025-12-31', '2026-01-01'), '2026-01-01')).toBe(3);
+  });
+
+  it('is 0 without entries', () => {
+    expect(getCurrentStreak([], '2026-10-19')).toBe(0);
+  });
+});
+
+describe('getLongestStreak', () => {
+  it('finds the longest run of consecutive days', () => {
+    const entries = days('2026-01-01', '2026-01-02', '2026-01-05', '2026-01-06', '2026-01-07', '2026-01-09');
+    expect(getLongestStreak(entries)).toBe(3);
+  });
+
+  it('does not depend on the order of the entries', () => {
+    expect(getLongestStreak(days('2026-03-02', '2026-02-28', '2026-03-01'))).toBe(3);
+  });
+
+  it('is 0 without entries', () => {
+    expect(getLongestStreak([])).toBe(0);
+  });
+});
+
+describe('getBestWeek', () => {
+  it('returns the Monday of the week with the most hours', () => {
+    const entries: DayEntry[] = [
+      { date: '2026-10-05', hours: 2 },
+      { date: '2026-10-11', hours: 3 },
+      { date: '2026-10-12', hours: 4 }
+    ];
+    expect(getBestWeek(entries)).toEqual({ date: '2026-10-05', hours: 5 });
+  });
+
+  it('groups a week spanning the new year together', () => {
+    const entries: DayEntry[] = [
+      { date: '2025-12-29', hours: 2 },
+      { date: '2026-01-04', hours: 2.5 },
+      { date: '2026-01-05', hours: 4 }
+    ];
+    expect(getBestWeek(entries)).toEqual({ date: '2025-12-29', hours: 4.5 });
+  });
+
+  it('is null without hours', () => {
+    expect(getBestWeek([])).toBeNull();
+  });
+});
+
+describe('getMonthlyHours', () => {
+  it('sums each month of the year', () => {
+    const entries: DayEntry[] = [
+      { date: '2025-12-31', hours: 9 },
+      { date: '2026-01-01', hours: 1.25 },
+      { date: '2026-01-31', hours: 2.5 },
+      { date: '2026-12-31', hours: 3 }
+    ];
+    expect(getMonthlyHours(entries, 2026)).toEqual([3.75, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 3]);
+  });
+});
+
+describe('getAnalytics', () => {
+  it('averages over active days and over the days of the year so far', () => {
+    const entries: DayEntry[] = [
+      { date: '2026-01-01', hours: 2 },
+      { date: '2026-01-03', hours: 4 }
+    ];
+    const analytics = getAnalytics(entries, 2026, '2026-01-04');
+    expect(analytics.activeDays).toBe(2);
+    expect(analytics.averagePerActiveDay).toBe(3);
+    expect(analytics.averagePerCalendarDay).toBe(1.5);
+    expect(analytics.bestDay).toEqual({ date: '2026-01-03', hours: 4 });
+  });
+});
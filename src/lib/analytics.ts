@@ -0,0 +1,127 @@
+import type { DayEntry } from '../types';
+import { roundHours } from './sessions';
+import { getWeekday, toDayNumber } from './dates';
+import { getIsoWeekStart } from './weeks';
+
+export interface DayTotal {
+  date: string;
+  hours: number;
+}
+
+export interface Analytics {
+  currentStreak: number;
+  longestStreak: number;
+  activeDays: number;
+  averagePerActiveDay: number;
+  averagePerCalendarDay: number;
+  bestDay: DayTotal | null;
+  // `date` is the Monday the week starts on
+  bestWeek: DayTotal | null;
+  // Indexed Sunday (0) to Saturday (6), matching Date#getDay
+  weekdayHours: number[];
+  monthlyHours: number[];
+}
+
+const activeDayNumbers = (entries: DayEntry[]): number[] =>
+  entries
+    .filter(entry => entry.hours > 0)
+    .map(entry => toDayNumber(entry.date))
+    .sort((a, b) => a - b);
+
+export const getLongestStreak = (entries: DayEntry[]): number => {
+  let longest = 0;
+  let current = 0;
+  let previous: number | null = null;
+  activeDayNumbers(entries).forEach(day => {
+    current = previous !== null && day === previous + 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+    previous = day;
+  });
+  return longest;
+};
+
+// A streak stays alive until the end of today, so an unlogged today doesn't break it
+export const getCurrentStreak = (entries: DayEntry[], today: string): number => {
+  const active = new Set(activeDayNumbers(entries));
+  let day = toDayNumber(today);
+  if (!active.has(day)) {
+    day -= 1;
+  }
+  let streak = 0;
+  while (active.has(day)) {
+    streak += 1;
+    day -= 1;
+  }
+  return streak;
+};
+
+export const getMonthlyHours = (entries: DayEntry[], year: number): number[] => {
+  const months = new Array(12).fill(0);
+  entries
+    .filter(entry => entry.date.startsWith(`${year}-`))
+    .forEach(entry => {
+      const month = parseInt(entry.date.slice(5, 7), 10) - 1;
+      months[month] = roundHours(months[month] + entry.hours);
+    });
+  return months;
+};
+
+export const getWeekdayHours = (entries: DayEntry[]): number[] => {
+  const weekdays = new Array(7).fill(0);
+  entries.forEach(entry => {
+    const weekday = getWeekday(entry.date);
+    weekdays[weekday] = roundHours(weekdays[weekday] + entry.hours);
+  });
+  return weekdays;
+};
+
+export const getBestWeek = (entries: DayEntry[]): DayTotal | null => {
+  const weeks = new Map<string, number>();
+  entries.forEach(entry => {
+    const monday = getIsoWeekStart(entry.date);
+    weeks.set(monday, (weeks.get(monday) || 0) + entry.hours);
+  });
+
+  let best: DayTotal | null = null;
+  weeks.forEach((hours, monday) => {
+    if (hours > 0 && (!best || hours > best.hours)) {
+      best = { date: monday, hours: roundHours(hours) };
+    }
+  });
+  return best;
+};
+
+// Number of days of `year` that have already started, as of `today`
+const elapsedDaysInYear = (year: number, today: string): number => {
+  const first = toDayNumber(`${year}-01-01`);
+  const last = toDayNumber(`${year}-12-31`);
+  const end = Math.min(last, toDayNumber(today));
+  return Math.max(0, end - first + 1);
+};
+
+/**
+ * Statistics for one calendar year. Streaks look at every entry so a streak
+ * running over New Year isn't cut short.
+ */
+export const getAnalytics = (entries: DayEntry[], year: number, today: string): Analytics => {
+  const yearEntries = entries.filter(entry => entry.date.startsWith(`${year}-`) && entry.hours > 0);
+  const total = yearEntries.reduce((sum, entry) => sum + entry.hours, 0);
+  const elapsedDays = elapsedDaysInYear(year, today);
+
+  const bestDay = yearEntries.reduce<DayTotal | null>(
+    (best, entry) => (!best || entry.hours > best.hours ? { date: entry.date, hours: entry.hours } : best),
+    null
+  );
+
+  return {
+    currentStreak: getCurrentStreak(entries, today),
+    longestStreak: getLongestStreak(entries),
+    activeDays: yearEntries.length,
+    averagePerActiveDay: yearEntries.length > 0 ? roundHours(total / yearEntries.length) : 0,
+    averagePerCalendarDay: elapsedDays > 0 ? roundHours(total / elapsedDays) : 0,
+    bestDay,
+    bestWeek: getBestWeek(yearEntries),
+    weekdayHours: getWeekdayHours(yearEntries),
+    monthlyHours: getMonthlyHours(yearEntries, year)
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { DayEntry } from '../types';
+import { applyBulkEdit, planBulkEdit } from './bulkEdit';
+
+const TODAY = '2026-10-19';
+
+const entries: DayEntry[] = [
+  { date: '2026-10-12', hours: 2, note: 'Shipped the importer' },
+  { date: '2026-10-13', hours: 0, note: 'Planning only' },
+  { date: '2026-10-14', hours: 1, sessions: [{ id: 'a', start: '09:00', end: '10:00' }] }
+];
+
+const edit = (operation: Parameters<typeof planBulkEdit>[3], hours: number) =>
+  applyBulkEdit(entries, planBulkEdit(entries, '2026-10-12', '2026-10-14', operation, hours, TODAY));
+
+describe('planBulkEdit', () => {
+  it('marks the notes a clear removes', () => {
+    const plan = planBulkEdit(entries, '2026-10-12', '2026-10-14', 'clear', 0, TODAY);
+    expect(plan.map(row => [row.action, row.removesNote ?? false])).toEqual([
+      ['change', true],
+      ['change', true],
+      ['change', false]
+    ]);
+  });
+
+  it('never removes notes for other operations', () => {
+    (['set', 'add', 'subtract', 'fillWeekdays'] as const).forEach(operation => {
+      expect(planBulkEdit(entries, '2026-10-12', '2026-10-14', operation, 2, TODAY).some(row => row.removesNote)).toBe(false);
+    });
+  });
+
+  it('rounds hours to the nearest half hour like manual entry', () => {
+    expect(planBulkEdit(entries, '2026-10-12', '2026-10-12', 'set', 3.3, TODAY)[0].resultHours).toBe(3.5);
+    expect(planBulkEdit(entries, '2026-10-12', '2026-10-12', 'add', 0.1, TODAY)[0].action).toBe('skip');
+  });
+});
+
+describe('applyBulkEdit', () => {
+  it('keeps a note when subtracting takes the day to 0 hours', () => {
+    expect(edit('subtract', 5)).toEqual([
+      { date: '2026-10-12', hours: 0, note: 'Shipped the importer' },
+      { date: '2026-10-13', hours: 0, note: 'Planning only' },
+      entries[2]
+    ]);
+  });
+
+  it('keeps notes when setting hours', () => {
+    expect(edit('set', 3)).toEqual([
+      { date: '2026-10-12', hours: 3, note: 'Shipped the importer' },
+      { date: '2026-10-13', hours: 3, note: 'Planning only' },
+      { ...entries[2], hours: 3 }
+    ]);
+  });
+
+  it('fills a weekday that only has a note', () => {
+    expect(edit('fillWeekdays', 4)).toContainEqual({ date: '2026-10-13', hours: 4, note: 'Planning only' });
+  });
+
+  it('clears days with their sessions and notes', () => {
+    expect(edit('clear', 0)).toEqual([]);
+  });
+});
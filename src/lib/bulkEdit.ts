@@ -0,0 +1,104 @@
+import type { DayEntry } from '../types';
+import { MAX_DAILY_HOURS, getSessionsTotal, roundHours, upsertDay } from './sessions';
+import { addDays, getWeekday } from './dates';
+import { isValidDate, validateAndClampHours } from './validation';
+
+export type BulkOperation = 'set' | 'add' | 'subtract' | 'clear' | 'fillWeekdays';
+
+export interface BulkPlanRow {
+  date: string;
+  currentHours: number;
+  resultHours: number;
+  action: 'change' | 'skip';
+  reason?: string;
+  // Set when the day's note goes too, which only `clear` does
+  removesNote?: boolean;
+}
+
+export const BULK_OPERATIONS: { value: BulkOperation; label: string; needsHours: boolean }[] = [
+  { value: 'set', label: 'Set hours', needsHours: true },
+  { value: 'add', label: 'Add hours', needsHours: true },
+  { value: 'subtract', label: 'Subtract hours', needsHours: true },
+  { value: 'fillWeekdays', label: 'Fill empty weekdays', needsHours: true },
+  { value: 'clear', label: 'Clear days', needsHours: false }
+];
+
+const isWeekend = (date: string) => getWeekday(date) === 0 || getWeekday(date) === 6;
+
+/**
+ * Works out what an operation does to each day between two dates inclusive.
+ * Only untimed hours are changed, so a day never drops below its sessions,
+ * and notes are kept, except for `clear`, which removes whole days. Hours are
+ * rounded to the nearest half hour, as in manual entry.
+ */
+export const planBulkEdit = (
+  entries: DayEntry[],
+  start: string,
+  end: string,
+  operation: BulkOperation,
+  hours: number,
+  today: string
+): BulkPlanRow[] => {
+  const amount = validateAndClampHours(hours);
+  const rows: BulkPlanRow[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const entry = entries.find(existing => existing.date === date);
+    const currentHours = entry?.hours ?? 0;
+    const sessionsTotal = getSessionsTotal(entry);
+    const skip = (reason: string): BulkPlanRow => ({ date, currentHours, resultHours: currentHours, action: 'skip', reason });
+
+    if (!isValidDate(date, today)) {
+      rows.push(skip('Future date'));
+      continue;
+    }
+
+    let resultHours: number;
+    if (operation === 'clear') {
+      if (entry?.note) {
+        rows.push({ date, currentHours, resultHours: 0, action: 'change', removesNote: true });
+        continue;
+      }
+      resultHours = 0;
+    } else if (operation === 'fillWeekdays') {
+      if (isWeekend(date)) {
+        rows.push(skip('Weekend'));
+        continue;
+      }
+      if (currentHours > 0) {
+        rows.push(skip('Already logged'));
+        continue;
+      }
+      resultHours = amount;
+    } else if (operation === 'set') {
+      if (amount < sessionsTotal) {
+        rows.push(skip(`Sessions add up to ${sessionsTotal}h`));
+        continue;
+      }
+      resultHours = amount;
+    } else if (operation === 'add') {
+      resultHours = roundHours(currentHours + amount);
+    } else {
+      resultHours = Math.max(sessionsTotal, roundHours(currentHours - amount));
+    }
+
+    if (resultHours > MAX_DAILY_HOURS) {
+      rows.push(skip('Would exceed 24 hours'));
+    } else if (resultHours === currentHours) {
+      rows.push(skip('No change'));
+    } else {
+      rows.push({ date, currentHours, resultHours, action: 'change' });
+    }
+  }
+  return rows;
+};
+
+export const applyBulkEdit = (entries: DayEntry[], plan: BulkPlanRow[]): DayEntry[] =>
+  plan.reduce((result, row) => {
+    if (row.action === 'skip') return result;
+    const entry = result.find(existing => existing.date === row.date);
+    // Only a cleared day reaches 0 hours with sessions; they go, and its note only if the row says so
+    if (row.resultHours === 0) {
+      return upsertDay(result, row.date, 0, [], row.removesNote ? '' : entry?.note);
+    }
+    return upsertDay(result, row.date, roundHours(row.resultHours - getSessionsTotal(entry)), entry?.sessions ?? []);
+  }, entries);
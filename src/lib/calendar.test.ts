@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { getLoggableDates, getMonthDays, getMonthWeeks } from './calendar';
+
+describe('getMonthDays', () => {
+  it('starts the grid on the Sunday before the 1st', () => {
+    // October 2026 starts on a Thursday
+    const days = getMonthDays(2026, 9);
+    expect(days).toHaveLength(42);
+    expect(days[0]).toEqual({ date: '2026-09-27', isCurrentMonth: false });
+    expect(days[4]).toEqual({ date: '2026-10-01', isCurrentMonth: true });
+    expect(days[41]).toEqual({ date: '2026-11-07', isCurrentMonth: false });
+  });
+
+  it('starts the grid on a Monday when weeks start on Monday', () => {
+    expect(getMonthDays(2026, 9, 1)[0].date).toBe('2026-09-28');
+  });
+
+  it('starts on the 1st when it falls on the first day of the week', () => {
+    // February 2026 starts on a Sunday
+    expect(getMonthDays(2026, 1)[0]).toEqual({ date: '2026-02-01', isCurrentMonth: true });
+  });
+
+  it('marks every day of a leap February as in the month', () => {
+    expect(getMonthDays(2028, 1).filter(day => day.isCurrentMonth)).toHaveLength(29);
+  });
+
+  it('spans the turn of the year', () => {
+    const days = getMonthDays(2026, 11);
+    expect(days.filter(day => day.isCurrentMonth).map(day => day.date).at(-1)).toBe('2026-12-31');
+    expect(days[41].date).toBe('2027-01-09');
+  });
+});
+
+describe('getMonthWeeks', () => {
+  it('splits the grid into six weeks of seven days', () => {
+    const weeks = getMonthWeeks(2026, 9, 1);
+    expect(weeks).toHaveLength(6);
+    expect(weeks.every(week => week.length === 7)).toBe(true);
+    expect(weeks[1][0].date).toBe('2026-10-05');
+  });
+});
+
+describe('getLoggableDates', () => {
+  it('stops the current year at today, latest first', () => {
+    const dates = getLoggableDates(2026, '2026-01-03');
+    expect(dates).toEqual(['2026-01-03', '2026-01-02', '2026-01-01']);
+  });
+
+  it('covers every day of a past year', () => {
+    const dates = getLoggableDates(2024, '2026-10-19');
+    expect(dates).toHaveLength(366);
+    expect(dates[0]).toBe('2024-12-31');
+    expect(dates.at(-1)).toBe('2024-01-01');
+  });
+
+  it('is empty for a future year', () => {
+    expect(getLoggableDates(2027, '2026-10-19')).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import type { WeekStart } from './settings';
+import { DateKey, addDays, fromParts, getMonth, getWeekday, getYear } from './dates';
+
+export interface CalendarDay {
+  date: DateKey;
+  isCurrentMonth: boolean;
+}
+
+/**
+ * Days of the month grid for a 0-based month. The grid always shows six
+ * weeks, starting with the days of the previous month before the 1st.
+ */
+export const getMonthDays = (year: number, month: number, weekStart: WeekStart = 0): CalendarDay[] => {
+  const firstDay = fromParts(year, month, 1);
+  const gridStart = addDays(firstDay, -((getWeekday(firstDay) - weekStart + 7) % 7));
+  return Array.from({ length: 42 }, (_, index) => {
+    const day = addDays(gridStart, index);
+    return { date: day, isCurrentMonth: getYear(day) === year && getMonth(day) === month };
+  });
+};
+
+// Rows of the month grid, each starting on `weekStart`
+export const getMonthWeeks = (year: number, month: number, weekStart: WeekStart = 0): CalendarDay[][] => {
+  const days = getMonthDays(year, month, weekStart);
+  return Array.from({ length: days.length / 7 }, (_, row) => days.slice(row * 7, row * 7 + 7));
+};
+
+// Every day of a year that can be logged, latest first; the current year stops at today
+export const getLoggableDates = (year: number, today: DateKey): DateKey[] => {
+  const yearEnd = `${year}-12-31`;
+  const last = today < yearEnd ? today : yearEnd;
+  const dates: DateKey[] = [];
+  for (let date = last; date >= `${year}-01-01`; date = addDays(date, -1)) {
+    dates.push(date);
+  }
+  return dates;
+};
@@ -0,0 +1,55 @@
+import { expect, it } from 'vitest';
+import { describeInTimezones } from '../test/timezones';
+import { addDays, addMonths, getWeekday, toDateKey } from './dates';
+
+describeInTimezones('toDateKey', zone => {
+  it('reads the local calendar day', () => {
+    expect(toDateKey(new Date(2026, 0, 1, 0, 0))).toBe('2026-01-01');
+    expect(toDateKey(new Date(2025, 11, 31, 23, 59))).toBe('2025-12-31');
+  });
+
+  it('puts the same instant on the local day', () => {
+    expect(toDateKey(new Date(Date.UTC(2026, 0, 1, 5)))).toBe(zone.newYearMorningUtc);
+  });
+
+  it('keeps every hour of the day the clocks change on that day', () => {
+    const date = zone.springForward ?? '2026-03-08';
+    const [year, month, day] = date.split('-').map(Number);
+    for (let hour = 0; hour < 24; hour++) {
+      expect(toDateKey(new Date(year, month - 1, day, hour, 30))).toBe(date);
+    }
+  });
+});
+
+describeInTimezones('getWeekday', zone => {
+  it('names the day of the week', () => {
+    expect(getWeekday('2026-10-19')).toBe(1);
+    expect(getWeekday('2026-01-01')).toBe(4);
+    expect(getWeekday('2024-02-29')).toBe(4);
+  });
+
+  it('counts a day the clocks change as a single day', () => {
+    const date = zone.springForward ?? '2026-03-08';
+    expect(getWeekday(date)).toBe(0);
+    expect(getWeekday(addDays(date, 1))).toBe(1);
+  });
+});
+
+describeInTimezones('addMonths', zone => {
+  it('keeps the day of the month', () => {
+    expect(addMonths('2026-10-19', 1)).toBe('2026-11-19');
+    expect(addMonths('2026-11-15', 2)).toBe('2027-01-15');
+    expect(addMonths('2026-01-15', -1)).toBe('2025-12-15');
+  });
+
+  it('stops at the end of a shorter month', () => {
+    expect(addMonths('2026-01-31', 1)).toBe('2026-02-28');
+    expect(addMonths('2024-02-29', 12)).toBe('2025-02-28');
+    expect(addMonths('2026-03-31', -1)).toBe('2026-02-28');
+  });
+
+  it('moves across a day the clocks change', () => {
+    const date = zone.springForward ?? '2026-03-08';
+    expect(addMonths(addMonths(date, -1), 1)).toBe(date);
+  });
+});
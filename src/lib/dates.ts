@@ -0,0 +1,59 @@
+/**
+ * Calendar days are handled as "YYYY-MM-DD" keys naming a day on the user's
+ * local calendar. A key is read off a Date in local time exactly once, in
+ * `toDateKey`; everything else works on the key itself, so no UTC conversion
+ * or DST change can move an entry to a neighbouring day.
+ */
+export type DateKey = string;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The local calendar day a moment falls on
+export const toDateKey = (date: Date): DateKey =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const getToday = (now: Date = new Date()): DateKey => toDateKey(now);
+
+// Day number since the epoch, independent of the local timezone
+export const toDayNumber = (date: DateKey): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+export const fromDayNumber = (dayNumber: number): DateKey => new Date(dayNumber * DAY_MS).toISOString().split('T')[0];
+
+// Builds a key from a year, a 0-based month and a day, rolling over like the Date constructor
+export const fromParts = (year: number, month: number, day: number): DateKey =>
+  fromDayNumber(Math.round(Date.UTC(year, month, day) / DAY_MS));
+
+export const addDays = (date: DateKey, days: number): DateKey => fromDayNumber(toDayNumber(date) + days);
+
+export const daysBetween = (start: DateKey, end: DateKey): number => toDayNumber(end) - toDayNumber(start);
+
+// Sunday (0) to Saturday (6); day 0 of the epoch was a Thursday
+export const getWeekday = (date: DateKey): number => (((toDayNumber(date) + 4) % 7) + 7) % 7;
+
+export const getYear = (date: DateKey): number => parseInt(date.slice(0, 4), 10);
+
+// 0-based, like Date#getMonth
+export const getMonth = (date: DateKey): number => parseInt(date.slice(5, 7), 10) - 1;
+
+export const getDayOfMonth = (date: DateKey): number => parseInt(date.slice(8, 10), 10);
+
+// Whether a value is a "YYYY-MM-DD" key naming a real calendar day
+export const isDateKey = (value: unknown): value is DateKey => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  return fromParts(year, month - 1, day) === value;
+};
+
+// Moves by whole months, keeping the day of the month where that month has it
+export const addMonths = (date: DateKey, months: number): DateKey => {
+  const target = fromParts(getYear(date), getMonth(date) + months, 1);
+  const lastDay = getDayOfMonth(fromParts(getYear(target), getMonth(target) + 1, 0));
+  return fromParts(getYear(target), getMonth(target), Math.min(getDayOfMonth(date), lastDay));
+};
@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import type { DayEntry, WorkSession } from '../types';
+import {
+  addDayHours,
+  addTimerSessions,
+  deleteDay,
+  deleteSession,
+  getHoursBetweenDates,
+  removeUntimedHours,
+  setDayHours
+} from './entries';
+
+const TODAY = '2026-10-19';
+
+const session = (id: string, start: string, end: string): WorkSession => ({ id, start, end });
+
+const withSessions: DayEntry = {
+  date: '2026-10-10',
+  hours: 3,
+  sessions: [session('a', '09:00', '10:00'), session('b', '13:00', '14:00')]
+};
+
+describe('setDayHours', () => {
+  it('adds a new day', () => {
+    expect(setDayHours([], '2026-10-01', 4, TODAY)).toEqual({
+      ok: true,
+      entries: [{ date: '2026-10-01', hours: 4 }]
+    });
+  });
+
+  it('replaces the total of a logged day', () => {
+    const result = setDayHours([{ date: '2026-10-01', hours: 4 }], '2026-10-01', 2.5, TODAY);
+    expect(result).toEqual({ ok: true, entries: [{ date: '2026-10-01', hours: 2.5 }] });
+  });
+
+  it('rounds to the nearest half hour', () => {
+    const result = setDayHours([], '2026-10-01', 1.3, TODAY);
+    expect(result.ok && result.entries[0].hours).toBe(1.5);
+  });
+
+  it('drops the day when set to 0', () => {
+    expect(setDayHours([{ date: '2026-10-01', hours: 4 }], '2026-10-01', 0, TODAY)).toEqual({ ok: true, entries: [] });
+  });
+
+  it('keeps sessions and only changes untimed hours', () => {
+    const result = setDayHours([withSessions], withSessions.date, 5, TODAY);
+    expect(result).toEqual({ ok: true, entries: [{ ...withSessions, hours: 5 }] });
+  });
+
+  it.each([
+    [NaN, 'Please enter a valid number of hours'],
+    [-1, 'Hours must be between 0 and 24'],
+    [25, 'Hours must be between 0 and 24'],
+    [0.2, 'Hours must be between 0 and 24']
+  ])('rejects %s hours', (hours, error) => {
+    expect(setDayHours([], '2026-10-01', hours, TODAY)).toEqual({ ok: false, error });
+  });
+
+  it('rejects a total below the logged sessions', () => {
+    expect(setDayHours([withSessions], withSessions.date, 1, TODAY)).toEqual({
+      ok: false,
+      error: 'Hours cannot be less than the 2h already logged in sessions'
+    });
+  });
+
+  it('accepts today and rejects tomorrow', () => {
+    expect(setDayHours([], TODAY, 1, TODAY).ok).toBe(true);
+    expect(setDayHours([], '2026-10-20', 1, TODAY)).toEqual({ ok: false, error: 'Cannot add hours for future dates' });
+  });
+});
+
+describe('addDayHours', () => {
+  it('adds to an existing day', () => {
+    const result = addDayHours([{ date: '2026-10-01', hours: 2 }], '2026-10-01', 1.5, TODAY);
+    expect(result).toEqual({ ok: true, entries: [{ date: '2026-10-01', hours: 3.5 }] });
+  });
+
+  it('subtracts with a negative amount and drops an emptied day', () => {
+    expect(addDayHours([{ date: '2026-10-01', hours: 2 }], '2026-10-01', -2, TODAY)).toEqual({ ok: true, entries: [] });
+  });
+
+  it('refuses to go past 24 hours', () => {
+    expect(addDayHours([{ date: '2026-10-01', hours: 24 }], '2026-10-01', 1, TODAY)).toEqual({
+      ok: false,
+      error: 'Cannot exceed 24 hours in a day'
+    });
+  });
+
+  it('refuses an amount that would take the day past 24 hours', () => {
+    expect(addDayHours([{ date: '2026-10-01', hours: 23 }], '2026-10-01', 2, TODAY)).toEqual({
+      ok: false,
+      error: 'Cannot exceed 24 hours in a day'
+    });
+  });
+
+  it('adds to untimed hours that are not whole half hours without rounding them away', () => {
+    const day: DayEntry = { date: '2026-10-01', hours: 1.5, sessions: [session('a', '09:00', '10:20')] };
+    const result = addDayHours([day], day.date, 0.5, TODAY);
+    expect(result).toEqual({ ok: true, entries: [{ ...day, hours: 2 }] });
+  });
+
+  it('rounds the amount to the nearest half hour', () => {
+    const result = addDayHours([{ date: '2026-10-01', hours: 2 }], '2026-10-01', 1.3, TODAY);
+    expect(result).toEqual({ ok: true, entries: [{ date: '2026-10-01', hours: 3.5 }] });
+  });
+
+  it('refuses an amount that rounds to nothing', () => {
+    expect(addDayHours([{ date: '2026-10-01', hours: 2 }], '2026-10-01', 0.2, TODAY)).toEqual({
+      ok: false,
+      error: 'Enter at least half an hour'
+    });
+  });
+
+  it('counts session hours towards the 24 hour limit', () => {
+    const full: DayEntry = { date: '2026-10-01', hours: 24, sessions: [session('a', '00:00', '12:00')] };
+    expect(addDayHours([full], full.date, 1, TODAY).ok).toBe(false);
+  });
+
+  it('refuses to go below 0', () => {
+    expect(addDayHours([], '2026-10-01', -1, TODAY)).toEqual({ ok: false, error: 'Hours cannot be negative' });
+  });
+
+  it('rejects future dates', () => {
+    expect(addDayHours([], '2026-10-20', 1, TODAY)).toEqual({ ok: false, error: 'Cannot add hours for future dates' });
+  });
+});
+
+describe('removeUntimedHours', () => {
+  it('takes part of the untimed hours off a day', () => {
+    const result = removeUntimedHours([{ date: '2026-10-01', hours: 5 }], '2026-10-01', 2);
+    expect(result).toEqual({ ok: true, entries: [{ date: '2026-10-01', hours: 3 }] });
+  });
+
+  it('removes the day when every hour is taken off', () => {
+    expect(removeUntimedHours([{ date: '2026-10-01', hours: 5 }], '2026-10-01', 8)).toEqual({ ok: true, entries: [] });
+  });
+
+  it('leaves sessions in place', () => {
+    const result = removeUntimedHours([withSessions], withSessions.date, 5);
+    expect(result).toEqual({ ok: true, entries: [{ ...withSessions, hours: 2 }] });
+  });
+
+  it.each([
+    [NaN, 'Please enter a valid number of hours'],
+    [0, 'Hours to remove must be more than 0'],
+    [-3, 'Hours to remove must be more than 0']
+  ])('rejects removing %s hours', (hours, error) => {
+    expect(removeUntimedHours([{ date: '2026-10-01', hours: 23 }], '2026-10-01', hours)).toEqual({ ok: false, error });
+  });
+
+  it('refuses when the day only has session hours', () => {
+    const sessionsOnly = { ...withSessions, hours: 2 };
+    expect(removeUntimedHours([sessionsOnly], sessionsOnly.date, 1)).toEqual({
+      ok: false,
+      error: 'This day only has session hours. Delete a session instead.'
+    });
+  });
+
+  it('ignores days that were never logged', () => {
+    const entries = [{ date: '2026-10-01', hours: 5 }];
+    expect(removeUntimedHours(entries, '2026-10-02', 1)).toEqual({ ok: true, entries });
+  });
+});
+
+describe('addTimerSessions', () => {
+  it('adds sessions to each of their days', () => {
+    const result = addTimerSessions([withSessions], [
+      { date: '2026-10-10', session: session('c', '23:00', '24:00') },
+      { date: '2026-10-11', session: session('d', '00:00', '00:30') }
+    ]);
+    expect(result).toEqual({
+      ok: true,
+      entries: [
+        { ...withSessions, hours: 4, sessions: [...withSessions.sessions!, session('c', '23:00', '24:00')] },
+        { date: '2026-10-11', hours: 0.5, sessions: [session('d', '00:00', '00:30')] }
+      ]
+    });
+  });
+
+  it('rejects a session overlapping one already logged', () => {
+    const result = addTimerSessions([withSessions], [
+      { date: '2026-10-09', session: session('c', '23:00', '24:00') },
+      { date: '2026-10-10', session: session('d', '09:30', '11:00') }
+    ]);
+    expect(result).toEqual({ ok: false, error: 'Session overlaps 09:00–10:00 (2026-10-10)' });
+  });
+
+  it('accepts a session that starts as another ends', () => {
+    const result = addTimerSessions([withSessions], [{ date: '2026-10-10', session: session('c', '10:00', '11:00') }]);
+    expect(result.ok).toBe(true);
+  });
+});
+
+describe('deleteSession', () => {
+  it('removes one session and its hours', () => {
+    expect(deleteSession([withSessions], withSessions.date, 'a')).toEqual([
+      { date: withSessions.date, hours: 2, sessions: [session('b', '13:00', '14:00')] }
+    ]);
+  });
+
+  it('drops a day left without hours', () => {
+    const single: DayEntry = { date: '2026-10-01', hours: 1, sessions: [session('a', '09:00', '10:00')] };
+    expect(deleteSession([single], single.date, 'a')).toEqual([]);
+  });
+
+  it('leaves the entries alone for an unknown day', () => {
+    const entries = [withSessions];
+    expect(deleteSession(entries, '2026-10-02', 'a')).toBe(entries);
+  });
+});
+
+describe('deleteDay', () => {
+  it('removes only the given day', () => {
+    const entries = [{ date: '2026-10-01', hours: 1 }, withSessions];
+    expect(deleteDay(entries, '2026-10-01')).toEqual([withSessions]);
+  });
+});
+
+describe('getHoursBetweenDates', () => {
+  const entries: DayEntry[] = [
+    { date: '2025-12-31', hours: 1 },
+    { date: '2026-01-01', hours: 2.25 },
+    { date: '2026-01-15', hours: 3.5 },
+    { date: '2026-02-01', hours: 4 }
+  ];
+
+  it('includes both ends of the range', () => {
+    expect(getHoursBetweenDates(entries, '2026-01-01', '2026-02-01')).toBe(9.75);
+  });
+
+  it('covers a range across the new year', () => {
+    expect(getHoursBetweenDates(entries, '2025-12-31', '2026-01-01')).toBe(3.25);
+  });
+
+  it('is 0 for a range without entries', () => {
+    expect(getHoursBetweenDates(entries, '2026-03-01', '2026-03-31')).toBe(0);
+  });
+});
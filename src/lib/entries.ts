@@ -0,0 +1,212 @@
+import type { DayEntry, WorkSession } from '../types';
+import type { DaySession } from './timer';
+import {
+  MAX_DAILY_HOURS,
+  MAX_NOTE_LENGTH,
+  findOverlappingSession,
+  getSessionHours,
+  getSessionsTotal,
+  getUntimedHours,
+  isValidTime,
+  roundHours,
+  timeToMinutes,
+  upsertDay
+} from './sessions';
+import { DateKey, daysBetween, getToday } from './dates';
+import { getHoursError, isValidDate, validateAndClampHours } from './validation';
+
+/**
+ * Edits to logged hours shared by the app and the command line. Each returns
+ * the new entries, or the message to show when the edit isn't allowed.
+ */
+export type EntryUpdate = { ok: true; entries: DayEntry[] } | { ok: false; error: string };
+
+// Longest date range the range stats cover
+export const MAX_RANGE_DAYS = 365;
+
+const rejected = (error: string): EntryUpdate => ({ ok: false, error });
+
+// Sets a day's total; only untimed hours change, so the total can't drop below the day's sessions
+export const setDayHours = (entries: DayEntry[], date: DateKey, hours: number, today: DateKey = getToday()): EntryUpdate => {
+  const hoursError = getHoursError(hours);
+  if (hoursError) {
+    return rejected(hoursError);
+  }
+
+  const validatedHours = validateAndClampHours(hours);
+
+  if (!isValidDate(date, today)) {
+    return rejected('Cannot add hours for future dates');
+  }
+
+  const existingEntry = entries.find(entry => entry.date === date);
+  const sessionsTotal = getSessionsTotal(existingEntry);
+  if (validatedHours < sessionsTotal) {
+    return rejected(`Hours cannot be less than the ${sessionsTotal}h already logged in sessions`);
+  }
+
+  return {
+    ok: true,
+    entries: upsertDay(entries, date, roundHours(validatedHours - sessionsTotal), existingEntry?.sessions ?? [])
+  };
+};
+
+// Adds to (or, with a negative amount, takes from) a day's untimed hours, keeping the day within 24 hours
+export const addDayHours = (entries: DayEntry[], date: DateKey, amount: number, today: DateKey = getToday()): EntryUpdate => {
+  if (isNaN(amount)) {
+    return rejected('Please enter a valid number of hours');
+  }
+
+  if (!isValidDate(date, today)) {
+    return rejected('Cannot add hours for future dates');
+  }
+
+  // The amount is counted in half hours; the day's own untimed hours may not be, since sessions aren't
+  const step = Math.sign(amount) * validateAndClampHours(Math.abs(amount));
+  if (step === 0) {
+    return amount === 0 ? { ok: true, entries } : rejected('Enter at least half an hour');
+  }
+
+  const existingEntry = entries.find(entry => entry.date === date);
+  const currentUntimed = getUntimedHours(existingEntry);
+  if (step > 0 && getSessionsTotal(existingEntry) + currentUntimed + step > MAX_DAILY_HOURS) {
+    return rejected('Cannot exceed 24 hours in a day');
+  }
+
+  const newUntimed = Math.max(0, roundHours(currentUntimed + step));
+  if (newUntimed === currentUntimed) {
+    return rejected('Hours cannot be negative');
+  }
+
+  return { ok: true, entries: upsertDay(entries, date, newUntimed, existingEntry?.sessions ?? []) };
+};
+
+export const isValidDateRange = (start: DateKey, end: DateKey): boolean =>
+  Math.abs(daysBetween(start, end)) <= MAX_RANGE_DAYS;
+
+// Total hours between two dates inclusive
+export const getHoursBetweenDates = (entries: DayEntry[], start: DateKey, end: DateKey): number =>
+  roundHours(
+    entries
+      .filter(entry => entry.date >= start && entry.date <= end)
+      .reduce((sum, entry) => sum + entry.hours, 0)
+  );
+
+// Takes hours logged without a session off a day; session hours are only removed with their session
+export const removeUntimedHours = (entries: DayEntry[], date: DateKey, hours: number): EntryUpdate => {
+  if (isNaN(hours)) {
+    return rejected('Please enter a valid number of hours');
+  }
+
+  // A negative amount would add hours instead, skipping the 24 hour limit
+  if (hours <= 0) {
+    return rejected('Hours to remove must be more than 0');
+  }
+
+  const existingEntry = entries.find(entry => entry.date === date);
+  if (!existingEntry) {
+    return { ok: true, entries };
+  }
+
+  const untimedHours = getUntimedHours(existingEntry);
+  if (untimedHours === 0) {
+    return rejected('This day only has session hours. Delete a session instead.');
+  }
+
+  const remaining = hours < untimedHours ? roundHours(untimedHours - hours) : 0;
+  return { ok: true, entries: upsertDay(entries, date, remaining, existingEntry.sessions ?? []) };
+};
+
+// Checks a session against the day's other sessions and the 24 hour limit before adding it
+export const addSession = (
+  entries: DayEntry[],
+  date: DateKey,
+  session: WorkSession,
+  today: DateKey = getToday()
+): EntryUpdate => {
+  if (!isValidTime(session.start) || !isValidTime(session.end)) {
+    return rejected('Please enter a valid start and end time');
+  }
+
+  if (timeToMinutes(session.end) <= timeToMinutes(session.start)) {
+    return rejected('Session must end after it starts');
+  }
+
+  if (!isValidDate(date, today)) {
+    return rejected('Cannot add hours for future dates');
+  }
+
+  const existingEntry = entries.find(entry => entry.date === date);
+  const sessions = existingEntry?.sessions ?? [];
+  const overlapping = findOverlappingSession(sessions, session.start, session.end);
+  if (overlapping) {
+    return rejected(`Session overlaps ${overlapping.start}–${overlapping.end}`);
+  }
+
+  const untimedHours = getUntimedHours(existingEntry);
+  if (untimedHours + getSessionsTotal(existingEntry) + getSessionHours(session) > MAX_DAILY_HOURS) {
+    return rejected('Cannot exceed 24 hours in a day');
+  }
+
+  return { ok: true, entries: upsertDay(entries, date, untimedHours, [...sessions, session]) };
+};
+
+// Adds the sessions of a stopped timer, which arrive already split at midnight
+export const addTimerSessions = (entries: DayEntry[], daySessions: DaySession[]): EntryUpdate => {
+  let newEntries = entries;
+  for (const { date, session } of daySessions) {
+    // A session in the hour repeated when clocks go back can end before it starts on the wall clock
+    if (timeToMinutes(session.end) <= timeToMinutes(session.start)) {
+      return rejected(`Session must end after it starts (${date})`);
+    }
+
+    const existingEntry = newEntries.find(entry => entry.date === date);
+    const sessions = existingEntry?.sessions ?? [];
+    const overlapping = findOverlappingSession(sessions, session.start, session.end);
+    if (overlapping) {
+      return rejected(`Session overlaps ${overlapping.start}–${overlapping.end} (${date})`);
+    }
+
+    const total = roundHours((existingEntry?.hours || 0) + getSessionHours(session));
+    if (total > MAX_DAILY_HOURS) {
+      return rejected(`Cannot exceed 24 hours in a day (${date})`);
+    }
+    newEntries = upsertDay(newEntries, date, getUntimedHours(existingEntry), [...sessions, session]);
+  }
+  return { ok: true, entries: newEntries };
+};
+
+// Sets a day's markdown note, keeping its hours and sessions; an empty note removes it
+export const setDayNote = (entries: DayEntry[], date: DateKey, note: string, today: DateKey = getToday()): EntryUpdate => {
+  if (!isValidDate(date, today)) {
+    return rejected('Cannot add notes for future dates');
+  }
+
+  const trimmed = note.trim();
+  if (trimmed.length > MAX_NOTE_LENGTH) {
+    return rejected(`Notes cannot be longer than ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  const existingEntry = entries.find(entry => entry.date === date);
+  return {
+    ok: true,
+    entries: upsertDay(entries, date, getUntimedHours(existingEntry), existingEntry?.sessions ?? [], trimmed)
+  };
+};
+
+export const deleteSession = (entries: DayEntry[], date: DateKey, sessionId: string): DayEntry[] => {
+  const existingEntry = entries.find(entry => entry.date === date);
+  if (!existingEntry) return entries;
+  return upsertDay(
+    entries,
+    date,
+    getUntimedHours(existingEntry),
+    (existingEntry.sessions ?? []).filter(session => session.id !== sessionId)
+  );
+};
+
+export const deleteDay = (entries: DayEntry[], date: DateKey): DayEntry[] =>
+  entries.filter(entry => entry.date !== date);
+
+export const getDayHours = (entries: DayEntry[], date: DateKey): number =>
+  entries.find(entry => entry.date === date)?.hours || 0;
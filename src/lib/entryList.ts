@@ -0,0 +1,67 @@
+import type { DayEntry } from '../types';
+
+export type EntrySort = 'newest' | 'oldest' | 'mostHours' | 'fewestHours';
+
+export interface EntryListQuery {
+  sort: EntrySort;
+  // "YYYY-MM", or empty for every month
+  month: string;
+  // Either bound may be left out
+  minHours: number | null;
+  maxHours: number | null;
+  // Matched against the day's note and its session projects and notes, ignoring case
+  text: string;
+}
+
+export const ENTRY_SORTS: { value: EntrySort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'mostHours', label: 'Most hours' },
+  { value: 'fewestHours', label: 'Fewest hours' }
+];
+
+export const DEFAULT_ENTRY_LIST_QUERY: EntryListQuery = {
+  sort: 'newest',
+  month: '',
+  minHours: null,
+  maxHours: null,
+  text: ''
+};
+
+export const ENTRY_PAGE_SIZE = 10;
+
+export const getSearchableText = (entry: DayEntry): string =>
+  [entry.note ?? '', ...(entry.sessions ?? []).flatMap(session => [session.project ?? '', session.note ?? ''])]
+    .join(' ')
+    .toLowerCase();
+
+const compare: Record<EntrySort, (a: DayEntry, b: DayEntry) => number> = {
+  newest: (a, b) => b.date.localeCompare(a.date),
+  oldest: (a, b) => a.date.localeCompare(b.date),
+  // Days with equal hours stay newest first
+  mostHours: (a, b) => b.hours - a.hours || b.date.localeCompare(a.date),
+  fewestHours: (a, b) => a.hours - b.hours || b.date.localeCompare(a.date)
+};
+
+// Filters and sorts a copy; the entries passed in are never reordered
+export const queryEntries = (entries: DayEntry[], query: EntryListQuery): DayEntry[] => {
+  const text = query.text.trim().toLowerCase();
+  return entries
+    .filter(entry =>
+      (!query.month || entry.date.startsWith(`${query.month}-`)) &&
+      (query.minHours === null || entry.hours >= query.minHours) &&
+      (query.maxHours === null || entry.hours <= query.maxHours) &&
+      (!text || getSearchableText(entry).includes(text))
+    )
+    .sort(compare[query.sort]);
+};
+
+export const getPageCount = (total: number, pageSize: number = ENTRY_PAGE_SIZE): number =>
+  Math.max(1, Math.ceil(total / pageSize));
+
+// Pages are 0-based; a page past the end shows the last one
+export const getPage = <T>(items: T[], page: number, pageSize: number = ENTRY_PAGE_SIZE): T[] => {
+  const lastPage = getPageCount(items.length, pageSize) - 1;
+  const start = Math.min(Math.max(page, 0), lastPage) * pageSize;
+  return items.slice(start, start + pageSize);
+};
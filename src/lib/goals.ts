@@ -0,0 +1,102 @@
+import type { DayEntry } from '../types';
+import { roundHours } from './sessions';
+import { addDays, getWeekday } from './dates';
+import { getIsoWeekStart } from './weeks';
+
+export interface Goal {
+  // First day ("YYYY-MM-DD") this version of the goal applies to
+  effectiveFrom: string;
+  weekdayHours: number;
+  weekendHours: number;
+  weeklyHours: number;
+  yearlyHours: number;
+}
+
+export type GoalStatus = 'met' | 'missed' | 'pending' | null;
+
+export const DEFAULT_GOAL: Omit<Goal, 'effectiveFrom'> = {
+  weekdayHours: 4,
+  weekendHours: 0,
+  weeklyHours: 20,
+  yearlyHours: 1000
+};
+
+// The goal version in force on a given day, or undefined before any goal was set
+export const getGoalForDate = (goals: Goal[], date: string): Goal | undefined =>
+  goals.reduce<Goal | undefined>(
+    (current, goal) => (goal.effectiveFrom <= date && (!current || goal.effectiveFrom >= current.effectiveFrom) ? goal : current),
+    undefined
+  );
+
+/**
+ * Adds a goal version starting on `effectiveFrom`. Earlier days keep being judged
+ * against the version that was in force at the time; a second change on the same
+ * day replaces that day's version.
+ */
+export const setGoal = (goals: Goal[], goal: Goal): Goal[] =>
+  [...goals.filter(existing => existing.effectiveFrom !== goal.effectiveFrom), goal]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+export const getDailyTarget = (goals: Goal[], date: string): number => {
+  const goal = getGoalForDate(goals, date);
+  if (!goal) return 0;
+  const weekday = getWeekday(date);
+  return weekday === 0 || weekday === 6 ? goal.weekendHours : goal.weekdayHours;
+};
+
+// Days without a target aren't judged; today is pending until its target is reached
+export const getDailyGoalStatus = (goals: Goal[], date: string, hours: number, today: string): GoalStatus => {
+  const target = getDailyTarget(goals, date);
+  if (target <= 0 || date > today) return null;
+  if (hours >= target) return 'met';
+  return date === today ? 'pending' : 'missed';
+};
+
+const sumHours = (entries: DayEntry[], start: string, end: string) =>
+  roundHours(entries
+    .filter(entry => entry.date >= start && entry.date <= end)
+    .reduce((sum, entry) => sum + entry.hours, 0));
+
+export interface GoalProgress {
+  hours: number;
+  target: number;
+}
+
+export const getGoalProgress = (
+  goals: Goal[],
+  entries: DayEntry[],
+  year: number,
+  today: string
+): { day: GoalProgress; week: GoalProgress; year: GoalProgress } => {
+  const weekStart = getIsoWeekStart(today);
+  // Past years are measured against the goal in force on their last day
+  const yearEnd = `${year}-12-31`;
+  const yearReference = yearEnd < today ? yearEnd : today;
+
+  return {
+    day: { hours: sumHours(entries, today, today), target: getDailyTarget(goals, today) },
+    week: { hours: sumHours(entries, weekStart, addDays(weekStart, 6)), target: getGoalForDate(goals, today)?.weeklyHours ?? 0 },
+    year: { hours: sumHours(entries, `${year}-01-01`, yearEnd), target: getGoalForDate(goals, yearReference)?.yearlyHours ?? 0 }
+  };
+};
+
+/**
+ * Share of judged days in `year` (up to yesterday) on which the daily goal was met.
+ * Returns null when no day in the period had a target.
+ */
+export const getGoalHitRate = (goals: Goal[], entries: DayEntry[], year: number, today: string): number | null => {
+  const yesterday = addDays(today, -1);
+  const last = `${year}-12-31` < yesterday ? `${year}-12-31` : yesterday;
+  const hoursByDate = new Map(entries.map(entry => [entry.date, entry.hours]));
+
+  let judged = 0;
+  let met = 0;
+  for (let date = `${year}-01-01`; date <= last; date = addDays(date, 1)) {
+    const status = getDailyGoalStatus(goals, date, hoursByDate.get(date) || 0, today);
+    if (status) {
+      judged += 1;
+      if (status === 'met') met += 1;
+    }
+  }
+  return judged > 0 ? Math.round((met / judged) * 100) : null;
+};
@@ -0,0 +1,35 @@
+import type { WeekStart } from './settings';
+import { addDays, getWeekday } from './dates';
+
+export interface HeatmapDay {
+  date: string;
+  inYear: boolean;
+}
+
+// Hours at which a day moves up an intensity level; any logged time is at least level 1
+export const INTENSITY_THRESHOLDS = [2, 4, 6];
+
+export const getIntensityLevel = (hours: number): number =>
+  hours <= 0 ? 0 : 1 + INTENSITY_THRESHOLDS.filter(threshold => hours >= threshold).length;
+
+/**
+ * Columns of the year heatmap: one array of seven days per week, starting on
+ * `weekStart`. The first and last weeks are padded with days from the
+ * neighbouring years.
+ */
+export const getHeatmapWeeks = (year: number, weekStart: WeekStart = 0): HeatmapDay[][] => {
+  const first = `${year}-01-01`;
+  const last = `${year}-12-31`;
+  let cursor = addDays(first, -((getWeekday(first) - weekStart + 7) % 7));
+
+  const weeks: HeatmapDay[][] = [];
+  while (cursor <= last) {
+    const week: HeatmapDay[] = [];
+    for (let i = 0; i < 7; i++) {
+      week.push({ date: cursor, inYear: cursor.startsWith(`${year}-`) });
+      cursor = addDays(cursor, 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, HistoryState, parseHistory } from './history';
+
+const history: HistoryState = {
+  past: [
+    { label: 'Log hours', changes: [{ date: '2026-10-18', before: null, after: { date: '2026-10-18', hours: 2 } }] },
+    {
+      label: 'Change hours',
+      changes: [{ date: '2026-10-18', before: { date: '2026-10-18', hours: 2 }, after: { date: '2026-10-18', hours: 3 } }]
+    }
+  ],
+  future: [{ label: 'Delete day', changes: [{ date: '2026-10-18', before: { date: '2026-10-18', hours: 3 }, after: null }] }]
+};
+
+describe('parseHistory', () => {
+  it('reads saved history', () => {
+    expect(parseHistory(JSON.stringify(history))).toEqual(history);
+  });
+
+  it('reads the project lists saved with a project edit', () => {
+    const renamed: HistoryState = {
+      past: [{
+        label: 'Rename project',
+        changes: [],
+        projects: { before: [{ name: 'api', color: '#4ade80' }], after: [{ name: 'backend', color: '#4ade80' }] }
+      }],
+      future: []
+    };
+    expect(parseHistory(JSON.stringify(renamed))).toEqual(renamed);
+  });
+
+  it('starts empty from anything that is not history', () => {
+    [null, '', 'not json', 'null', '{"past":{},"future":[]}'].forEach(raw => {
+      expect(parseHistory(raw)).toEqual(EMPTY_HISTORY);
+    });
+  });
+
+  it('discards the history when an action cannot be trusted', () => {
+    const broken = (action: unknown) => JSON.stringify({ ...history, past: [history.past[0], action] });
+    expect(parseHistory(broken(null))).toEqual(EMPTY_HISTORY);
+    expect(parseHistory(broken({ label: 'Change hours' }))).toEqual(EMPTY_HISTORY);
+    expect(parseHistory(broken({ label: 'Change hours', changes: [{ date: 'yesterday', before: null, after: null }] })))
+      .toEqual(EMPTY_HISTORY);
+    expect(parseHistory(broken({
+      label: 'Change hours',
+      changes: [{ date: '2026-10-18', before: null, after: { date: '2026-10-18', hours: 30 } }]
+    }))).toEqual(EMPTY_HISTORY);
+    expect(parseHistory(broken({
+      label: 'Change hours',
+      changes: [{ date: '2026-10-18', before: null, after: { date: '2026-10-17', hours: 1 } }]
+    }))).toEqual(EMPTY_HISTORY);
+    expect(parseHistory(broken({ label: 'Delete project', changes: [], projects: { before: [{ name: '' }], after: [] } })))
+      .toEqual(EMPTY_HISTORY);
+  });
+});
@@ -0,0 +1,121 @@
+import type { DayEntry } from '../types';
+import type { Project } from './projects';
+import { sanitizeEntry, sanitizeProject } from './storage/schema';
+import { isDateKey } from './dates';
+
+export interface EntryChange {
+  date: string;
+  // null when the day had no entry on that side of the change
+  before: DayEntry | null;
+  after: DayEntry | null;
+}
+
+export interface HistoryAction {
+  label: string;
+  changes: EntryChange[];
+  // The project list on each side, for edits that rename or delete a project along with its sessions' tags
+  projects?: { before: Project[]; after: Project[] };
+}
+
+export interface HistoryState {
+  past: HistoryAction[];
+  future: HistoryAction[];
+}
+
+export const HISTORY_STORAGE_KEY = 'didYouCode.history';
+
+// Oldest actions are dropped beyond this many steps
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const sameEntry = (a: DayEntry | null, b: DayEntry | null) => JSON.stringify(a) === JSON.stringify(b);
+
+// Per-day changes between two versions of the entries, so history stays small
+export const diffEntries = (before: DayEntry[], after: DayEntry[]): EntryChange[] => {
+  const beforeByDate = new Map(before.map(entry => [entry.date, entry]));
+  const afterByDate = new Map(after.map(entry => [entry.date, entry]));
+  const dates = new Set([...beforeByDate.keys(), ...afterByDate.keys()]);
+
+  return Array.from(dates)
+    .map(date => ({ date, before: beforeByDate.get(date) ?? null, after: afterByDate.get(date) ?? null }))
+    .filter(change => !sameEntry(change.before, change.after));
+};
+
+export const applyChanges = (entries: DayEntry[], changes: EntryChange[], direction: 'undo' | 'redo'): DayEntry[] =>
+  changes.reduce((result, change) => {
+    const target = direction === 'undo' ? change.before : change.after;
+    const index = result.findIndex(entry => entry.date === change.date);
+    if (index === -1) {
+      return target ? [...result, target] : result;
+    }
+    return target
+      ? result.map((entry, i) => (i === index ? target : entry))
+      : result.filter((_, i) => i !== index);
+  }, entries);
+
+export const pushAction = (history: HistoryState, action: HistoryAction): HistoryState => ({
+  past: [...history.past, action].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+// null entries are days that didn't exist on that side; anything else must be a valid entry for the date
+const sanitizeSide = (value: unknown, date: string): DayEntry | null | undefined => {
+  if (value === null) return null;
+  const entry = sanitizeEntry(value);
+  return entry && entry.date === date ? entry : undefined;
+};
+
+const sanitizeChange = (value: unknown): EntryChange | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { date, before, after } = value as Record<string, unknown>;
+  if (!isDateKey(date)) return null;
+  const sanitizedBefore = sanitizeSide(before, date);
+  const sanitizedAfter = sanitizeSide(after, date);
+  if (sanitizedBefore === undefined || sanitizedAfter === undefined) return null;
+  return { date, before: sanitizedBefore, after: sanitizedAfter };
+};
+
+const sanitizeProjects = (value: unknown): Project[] | null => {
+  if (!Array.isArray(value)) return null;
+  const projects = value.map(sanitizeProject);
+  return projects.every((project): project is Project => project !== null) ? projects : null;
+};
+
+const sanitizeAction = (value: unknown): HistoryAction | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { label, changes, projects } = value as Record<string, unknown>;
+  if (typeof label !== 'string' || !Array.isArray(changes)) return null;
+  const sanitized = changes.map(sanitizeChange);
+  if (!sanitized.every((change): change is EntryChange => change !== null)) return null;
+  if (projects === undefined) return { label, changes: sanitized };
+
+  if (typeof projects !== 'object' || projects === null) return null;
+  const before = sanitizeProjects((projects as Record<string, unknown>).before);
+  const after = sanitizeProjects((projects as Record<string, unknown>).after);
+  return before && after ? { label, changes: sanitized, projects: { before, after } } : null;
+};
+
+const sanitizeActions = (value: unknown): HistoryAction[] | null => {
+  if (!Array.isArray(value)) return null;
+  const actions = value.map(sanitizeAction);
+  return actions.every((action): action is HistoryAction => action !== null) ? actions : null;
+};
+
+/**
+ * Reads saved undo history. Each step only makes sense after the ones before
+ * it, so one unreadable action discards the whole history rather than leaving
+ * a gap that undo would step across.
+ */
+export const parseHistory = (raw: string | null): HistoryState => {
+  if (!raw) return EMPTY_HISTORY;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null) return EMPTY_HISTORY;
+    const past = sanitizeActions(parsed.past);
+    const future = sanitizeActions(parsed.future);
+    return past && future ? { past, future } : EMPTY_HISTORY;
+  } catch {
+    return EMPTY_HISTORY;
+  }
+};
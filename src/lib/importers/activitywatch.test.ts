@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import buckets from './fixtures/activitywatch-buckets.json?raw';
+import empty from './fixtures/activitywatch-empty.json?raw';
+import malformed from './fixtures/activitywatch-malformed.json?raw';
+import { activityWatchImporter } from './activitywatch';
+
+const parse = activityWatchImporter.parse;
+
+// The fixtures' events fall on the same local day anywhere from UTC-8 to UTC+14
+describe('activityWatchImporter', () => {
+  it('detects a bucket export and counts only not-afk time', () => {
+    expect(activityWatchImporter.detect('aw-buckets-export.json', buckets)).toBe(true);
+    expect(parse(buckets)).toEqual({ entries: [{ date: '2026-10-14', hours: 1.5 }], errors: [] });
+  });
+
+  it('explains an export without events', () => {
+    expect(parse(empty)).toEqual({ entries: [], errors: ['No ActivityWatch events found in file'] });
+  });
+
+  it('keeps the readable events of a malformed export and reports the rest', () => {
+    expect(parse(malformed)).toEqual({
+      entries: [{ date: '2026-10-14', hours: 1 }],
+      errors: [
+        'ActivityWatch bucket "aw-watcher-window_laptop" is not an object',
+        'ActivityWatch bucket "aw-watcher-afk_laptop" has no list of events',
+        'Skipped 2 malformed ActivityWatch events'
+      ]
+    });
+  });
+
+  it('explains files that are not an export', () => {
+    expect(parse('{"buckets": ')).toEqual({ entries: [], errors: ['File is not valid JSON'] });
+    expect(parse('null').errors).toEqual(['File is not an ActivityWatch export']);
+    expect(parse('{"buckets": null}').errors).toEqual(['ActivityWatch "buckets" is not an object']);
+    expect(parse('{"buckets": []}').errors).toEqual(['ActivityWatch "buckets" is not an object']);
+    expect(parse('{"events": null}').errors).toEqual([
+      'ActivityWatch bucket "export" has no list of events',
+      'No ActivityWatch events found in file'
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { ParsedImport } from '../transfer';
+import { dailySecondsToImport, intervalsToDailySeconds } from './intervals';
+import type { ActivityInterval, Importer } from './types';
+
+interface ActivityWatchEvent {
+  timestamp: string;
+  duration: number;
+  data?: { status?: string };
+}
+
+interface ActivityWatchBucket {
+  id?: string;
+  type?: string;
+  events: ActivityWatchEvent[];
+  // Events dropped because they lack a timestamp or duration
+  skipped: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isActivityWatchEvent = (event: unknown): event is ActivityWatchEvent =>
+  isObject(event) && typeof event.timestamp === 'string' && typeof event.duration === 'number';
+
+const toIntervals = (events: ActivityWatchEvent[]): ActivityInterval[] =>
+  events
+    .map(event => {
+      const start = new Date(event.timestamp).getTime();
+      return { start, end: start + event.duration * 1000 };
+    })
+    .filter(interval => !isNaN(interval.start));
+
+// Checks one bucket, keeping its well-formed events; returns an error message when it can't be read
+const readBucket = (name: string, value: unknown): ActivityWatchBucket | string => {
+  if (!isObject(value)) {
+    return `ActivityWatch bucket "${name}" is not an object`;
+  }
+  if (!Array.isArray(value.events)) {
+    return `ActivityWatch bucket "${name}" has no list of events`;
+  }
+  const events = value.events.filter(isActivityWatchEvent);
+  return {
+    id: typeof value.id === 'string' ? value.id : name,
+    type: typeof value.type === 'string' ? value.type : undefined,
+    events,
+    skipped: value.events.length - events.length
+  };
+};
+
+/**
+ * Reads a bucket export (`{ buckets: { [id]: bucket } }`) or a single bucket. When
+ * an AFK watcher bucket is present only its "not-afk" time is counted, otherwise
+ * the union of all bucket events is used.
+ */
+const parseActivityWatch = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: ['File is not valid JSON'] };
+  }
+
+  if (!isObject(data)) {
+    return { entries: [], errors: ['File is not an ActivityWatch export'] };
+  }
+  if ('buckets' in data && !isObject(data.buckets)) {
+    return { entries: [], errors: ['ActivityWatch "buckets" is not an object'] };
+  }
+
+  const read = isObject(data.buckets)
+    ? Object.entries(data.buckets).map(([name, bucket]) => readBucket(name, bucket))
+    : [readBucket(typeof data.id === 'string' ? data.id : 'export', data)];
+  const errors = read.filter((bucket): bucket is string => typeof bucket === 'string');
+  const buckets = read.filter((bucket): bucket is ActivityWatchBucket => typeof bucket !== 'string');
+  const skipped = buckets.reduce((sum, bucket) => sum + bucket.skipped, 0);
+  if (skipped > 0) {
+    errors.push(`Skipped ${skipped} malformed ActivityWatch event${skipped === 1 ? '' : 's'}`);
+  }
+  const afkBuckets = buckets.filter(bucket => bucket.type === 'afkstatus' || bucket.id?.startsWith('aw-watcher-afk'));
+
+  const intervals = afkBuckets.length > 0
+    ? afkBuckets.flatMap(bucket => toIntervals(bucket.events.filter(event => event.data?.status === 'not-afk')))
+    : buckets.flatMap(bucket => toIntervals(bucket.events));
+
+  if (intervals.length === 0) {
+    return { entries: [], errors: [...errors, 'No ActivityWatch events found in file'] };
+  }
+
+  const result = dailySecondsToImport(intervalsToDailySeconds(intervals));
+  return { ...result, errors: [...errors, ...result.errors] };
+};
+
+export const activityWatchImporter: Importer = {
+  id: 'activitywatch',
+  label: 'ActivityWatch export',
+  extensions: ['.json'],
+  detect: (fileName, text) =>
+    fileName.toLowerCase().endsWith('.json') && /"buckets"\s*:|"events"\s*:/.test(text),
+  parse: parseActivityWatch
+};
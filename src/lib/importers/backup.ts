@@ -0,0 +1,22 @@
+import { parseCsv, parseJson } from '../transfer';
+import type { Importer } from './types';
+
+export const backupJsonImporter: Importer = {
+  id: 'backup-json',
+  label: 'Did You Code? JSON',
+  extensions: ['.json'],
+  detect: (fileName, text) => {
+    if (!fileName.toLowerCase().endsWith('.json')) return false;
+    const trimmed = text.trimStart();
+    return trimmed.startsWith('[') || /"schemaVersion"\s*:/.test(text);
+  },
+  parse: parseJson
+};
+
+export const csvImporter: Importer = {
+  id: 'csv',
+  label: 'CSV (date, hours, note)',
+  extensions: ['.csv'],
+  detect: fileName => fileName.toLowerCase().endsWith('.csv'),
+  parse: parseCsv
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { describeInTimezones } from '../../test/timezones';
+import { estimateGitLog, groupCommitSessions, parseGitLog } from './gitlog';
+
+const MINUTE = 60 * 1000;
+// 2026-03-14T09:30:00+01:00
+const COMMIT_TIME = Date.UTC(2026, 2, 14, 8, 30);
+
+const at = (date: string, time: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes).getTime();
+};
+
+const unixLine = (timestamp: number, email: string, subject: string) =>
+  `abc123|${email}|${Math.floor(timestamp / 1000)}|${subject}`;
+
+describe('parseGitLog', () => {
+  it('reads %aI dates', () => {
+    expect(parseGitLog('abc123|ann@example.com|2026-03-14T09:30:00+01:00|Fix the calendar')).toEqual([COMMIT_TIME]);
+  });
+
+  it('reads %ai dates', () => {
+    expect(parseGitLog('abc123|ann@example.com|2026-03-14 09:30:00 +0100|Fix the calendar')).toEqual([COMMIT_TIME]);
+  });
+
+  it('reads %at dates', () => {
+    expect(parseGitLog(unixLine(COMMIT_TIME, 'ann@example.com', 'Fix the calendar'))).toEqual([COMMIT_TIME]);
+  });
+
+  it('does not read a 10 digit id in a subject as the commit time', () => {
+    expect(parseGitLog(unixLine(COMMIT_TIME, 'ann@example.com', 'Closes build 1234567890'))).toEqual([COMMIT_TIME]);
+    expect(parseGitLog('abc123|ann@example.com|Closes build 1234567890')).toEqual([]);
+  });
+
+  it('reads plain git log output and skips its commit messages', () => {
+    const log = [
+      'commit abc123',
+      'Author: Ann <ann@example.com>',
+      'Date:   Sat Mar 14 09:30:00 2026 +0100',
+      '',
+      '    Fix the calendar',
+      '',
+      '    Closes build 1234567890, broken since 2026-01-01 10:00:00 +0000'
+    ].join('\n');
+    expect(parseGitLog(log)).toEqual([COMMIT_TIME]);
+  });
+
+  it('sorts commits oldest first', () => {
+    const log = [
+      'b|ann@example.com|2026-03-14T11:00:00+01:00|Second',
+      'a|ann@example.com|2026-03-14T09:30:00+01:00|First'
+    ].join('\n');
+    expect(parseGitLog(log)).toEqual([COMMIT_TIME, COMMIT_TIME + 90 * MINUTE]);
+  });
+
+  it('filters one-line formats by author', () => {
+    const log = [
+      'a|ann@example.com|2026-03-14T09:30:00+01:00|Fix the calendar',
+      'b|bob@example.com|2026-03-14T10:00:00+01:00|Fix the timer'
+    ].join('\n');
+    expect(parseGitLog(log, 'ANN@')).toEqual([COMMIT_TIME]);
+  });
+
+  it('filters plain git log output by its Author: line', () => {
+    const log = [
+      'commit a',
+      'Author: Ann <ann@example.com>',
+      'Date:   Sat Mar 14 09:30:00 2026 +0100',
+      '',
+      '    Reviewed with bob@example.com',
+      '',
+      'commit b',
+      'Author: Bob <bob@example.com>',
+      'Date:   Sat Mar 14 10:00:00 2026 +0100',
+      '',
+      '    Fix the timer'
+    ].join('\n');
+    expect(parseGitLog(log, 'bob')).toEqual([COMMIT_TIME + 30 * MINUTE]);
+  });
+});
+
+describe('groupCommitSessions', () => {
+  const commits = [COMMIT_TIME, COMMIT_TIME + 45 * MINUTE, COMMIT_TIME + 4 * 60 * MINUTE];
+
+  it('starts a new session after the idle gap', () => {
+    expect(groupCommitSessions(commits, { idleGapMinutes: 120, paddingMinutes: 0 })).toEqual([
+      { start: COMMIT_TIME, end: COMMIT_TIME + 45 * MINUTE },
+      { start: COMMIT_TIME + 4 * 60 * MINUTE, end: COMMIT_TIME + 4 * 60 * MINUTE }
+    ]);
+    expect(groupCommitSessions(commits, { idleGapMinutes: 240, paddingMinutes: 0 })).toEqual([
+      { start: COMMIT_TIME, end: COMMIT_TIME + 4 * 60 * MINUTE }
+    ]);
+  });
+
+  it('pads the start of each session', () => {
+    expect(groupCommitSessions(commits, { idleGapMinutes: 120, paddingMinutes: 30 })).toEqual([
+      { start: COMMIT_TIME - 30 * MINUTE, end: COMMIT_TIME + 45 * MINUTE },
+      { start: COMMIT_TIME + 210 * MINUTE, end: COMMIT_TIME + 4 * 60 * MINUTE }
+    ]);
+  });
+});
+
+describeInTimezones('estimateGitLog', () => {
+  it('suggests hours and commits per day', () => {
+    const log = [
+      unixLine(at('2026-03-13', '09:00'), 'ann@example.com', 'Start'),
+      unixLine(at('2026-03-13', '10:30'), 'ann@example.com', 'Finish')
+    ].join('\n');
+    expect(estimateGitLog(log)).toEqual({
+      suggestions: [{ date: '2026-03-13', hours: 2, commits: 2 }],
+      errors: []
+    });
+  });
+
+  it('splits a session that crosses midnight between both days', () => {
+    const log = [
+      unixLine(at('2026-03-13', '23:40'), 'ann@example.com', 'Late fix'),
+      unixLine(at('2026-03-14', '00:50'), 'ann@example.com', 'Later fix')
+    ].join('\n');
+    expect(estimateGitLog(log).suggestions).toEqual([
+      { date: '2026-03-13', hours: 1, commits: 1 },
+      { date: '2026-03-14', hours: 1, commits: 1 }
+    ]);
+  });
+
+  it('explains when nothing was found', () => {
+    expect(estimateGitLog('nothing here').errors).toEqual([
+      'No commit dates found. Use the output of git log --pretty=format:"%H|%ae|%aI|%s"'
+    ]);
+    const log = unixLine(at('2026-03-13', '09:00'), 'ann@example.com', 'Start');
+    expect(estimateGitLog(log, { idleGapMinutes: 120, paddingMinutes: 30, author: 'bob' }).errors).toEqual([
+      'No commits by "bob" found'
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import type { DayEntry } from '../../types';
+import type { ParsedImport } from '../transfer';
+import { toDateKey } from '../dates';
+import { dailySecondsToImport, intervalsToDailySeconds } from './intervals';
+import type { ActivityInterval, Importer } from './types';
+
+export interface GitLogOptions {
+  // Commits further apart than this start a new session
+  idleGapMinutes: number;
+  // Time credited before the first commit of a session, for the work that led up to it
+  paddingMinutes: number;
+  // Only commits whose line (or Author: line) contains this text are counted
+  author?: string;
+}
+
+export interface GitLogSuggestion extends DayEntry {
+  commits: number;
+}
+
+export interface GitLogEstimate {
+  suggestions: GitLogSuggestion[];
+  errors: string[];
+}
+
+export const DEFAULT_GIT_LOG_OPTIONS: GitLogOptions = { idleGapMinutes: 120, paddingMinutes: 30 };
+
+// The format the importer is documented with; the others below are accepted too
+export const GIT_LOG_COMMAND = 'git log --pretty=format:"%H|%ae|%aI|%s"';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// %aI ("2026-03-14T09:30:00+01:00") and %ai ("2026-03-14 09:30:00 +0100")
+const ISO_DATE = /(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2})\s?(Z|[+-]\d{2}:?\d{2})/;
+// %at, as a whole field between separators or alone on its line, so ids in a subject aren't read as dates
+const UNIX_DATE = /^\d{10}$/;
+const FIELD_SEPARATOR = /[|,;\t]/;
+// The "Date:" line of plain `git log` output
+const DEFAULT_DATE = /^Date:\s+\w{3} (\w{3}) (\d{1,2}) (\d{2}:\d{2}:\d{2}) (\d{4}) ([+-]\d{2})(\d{2})/;
+
+const withColon = (offset: string) => (offset === 'Z' || offset.includes(':') ? offset : `${offset.slice(0, 3)}:${offset.slice(3)}`);
+
+// Milliseconds since the epoch for a line holding a commit date, or null
+const parseTimestamp = (line: string): number | null => {
+  const defaultDate = DEFAULT_DATE.exec(line);
+  if (defaultDate) {
+    const [, month, day, time, year, offsetHours, offsetMinutes] = defaultDate;
+    const monthIndex = MONTHS.indexOf(month);
+    if (monthIndex === -1) return null;
+    const iso = `${year}-${String(monthIndex + 1).padStart(2, '0')}-${day.padStart(2, '0')}T${time}${offsetHours}:${offsetMinutes}`;
+    return Date.parse(iso);
+  }
+
+  const iso = ISO_DATE.exec(line);
+  if (iso) {
+    const timestamp = Date.parse(`${iso[1]}T${iso[2]}${withColon(iso[3])}`);
+    return isNaN(timestamp) ? null : timestamp;
+  }
+
+  const unix = line.split(FIELD_SEPARATOR).find(field => UNIX_DATE.test(field.trim()));
+  return unix ? parseInt(unix, 10) * 1000 : null;
+};
+
+/**
+ * Reads commit times from one-line formats (`%aI`, `%ai` or `%at` among other
+ * fields) or from plain `git log` output, where the author is on its own line.
+ */
+export const parseGitLog = (text: string, author?: string): number[] => {
+  const filter = author?.trim().toLowerCase();
+  const timestamps: number[] = [];
+  let authorLine = '';
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    // Commit messages in plain `git log` output are indented, and any date or number in them isn't the commit's
+    if (rawLine.startsWith('    ')) return;
+    const line = rawLine.trim();
+    if (line.startsWith('Author:')) {
+      authorLine = line;
+      return;
+    }
+    const timestamp = parseTimestamp(line);
+    if (timestamp === null) return;
+    const subject = line.startsWith('Date:') ? authorLine : line;
+    if (!filter || subject.toLowerCase().includes(filter)) {
+      timestamps.push(timestamp);
+    }
+  });
+
+  return timestamps.sort((a, b) => a - b);
+};
+
+// Chains commits no more than the idle gap apart into sessions, each padded at the start
+export const groupCommitSessions = (timestamps: number[], options: GitLogOptions): ActivityInterval[] => {
+  const gap = options.idleGapMinutes * 60 * 1000;
+  const padding = options.paddingMinutes * 60 * 1000;
+
+  return [...timestamps]
+    .sort((a, b) => a - b)
+    .reduce((sessions: ActivityInterval[], timestamp) => {
+      const last = sessions[sessions.length - 1];
+      if (last && timestamp - last.end <= gap) {
+        last.end = timestamp;
+      } else {
+        sessions.push({ start: timestamp - padding, end: timestamp });
+      }
+      return sessions;
+    }, []);
+};
+
+export const estimateGitLog = (text: string, options: GitLogOptions = DEFAULT_GIT_LOG_OPTIONS): GitLogEstimate => {
+  const timestamps = parseGitLog(text, options.author);
+  if (timestamps.length === 0) {
+    return {
+      suggestions: [],
+      errors: [options.author?.trim()
+        ? `No commits by "${options.author.trim()}" found`
+        : `No commit dates found. Use the output of ${GIT_LOG_COMMAND}`]
+    };
+  }
+
+  const commitsByDay: Record<string, number> = {};
+  timestamps.forEach(timestamp => {
+    const date = toDateKey(new Date(timestamp));
+    commitsByDay[date] = (commitsByDay[date] || 0) + 1;
+  });
+
+  const { entries, errors } = dailySecondsToImport(intervalsToDailySeconds(groupCommitSessions(timestamps, options)));
+  return {
+    suggestions: entries.map(entry => ({ ...entry, commits: commitsByDay[entry.date] ?? 0 })),
+    errors
+  };
+};
+
+export const gitLogImporter: Importer = {
+  id: 'gitlog',
+  label: 'Git log (estimated)',
+  extensions: ['.txt', '.log'],
+  detect: (fileName, text) => /\.(txt|log)$/i.test(fileName) && text.split(/\r?\n/).some(line => parseTimestamp(line.trim()) !== null),
+  parse: (text: string): ParsedImport => {
+    const { suggestions, errors } = estimateGitLog(text);
+    return { entries: suggestions.map(({ date, hours }) => ({ date, hours })), errors };
+  }
+};
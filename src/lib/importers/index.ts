@@ -0,0 +1,24 @@
+import { activityWatchImporter } from './activitywatch';
+import { backupJsonImporter, csvImporter } from './backup';
+import { gitLogImporter } from './gitlog';
+import type { Importer } from './types';
+import { wakaTimeImporter } from './wakatime';
+
+export type { Importer } from './types';
+
+// Checked in order during auto-detection; add new formats here
+export const importers: Importer[] = [
+  backupJsonImporter,
+  csvImporter,
+  wakaTimeImporter,
+  activityWatchImporter,
+  gitLogImporter
+];
+
+export const findImporter = (id: string): Importer | undefined =>
+  importers.find(importer => importer.id === id);
+
+export const detectImporter = (fileName: string, text: string): Importer | undefined =>
+  importers.find(importer => importer.detect(fileName, text));
+
+export const acceptedExtensions = Array.from(new Set(importers.flatMap(importer => importer.extensions))).join(',');
@@ -0,0 +1,41 @@
+import { expect, it } from 'vitest';
+import { describeInTimezones } from '../../test/timezones';
+import { addDays } from '../dates';
+import { intervalsToDailySeconds } from './intervals';
+
+const HOUR = 3600;
+
+const at = (date: string, hours: number, minutes = 0): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, hours, minutes).getTime();
+};
+
+describeInTimezones('intervalsToDailySeconds', zone => {
+  it('sums intervals by local day', () => {
+    expect(intervalsToDailySeconds([
+      { start: at('2026-10-18', 9), end: at('2026-10-18', 10, 30) },
+      { start: at('2026-10-18', 14), end: at('2026-10-18', 15) },
+      { start: at('2026-10-19', 9), end: at('2026-10-19', 10) }
+    ])).toEqual({ '2026-10-18': 2.5 * HOUR, '2026-10-19': HOUR });
+  });
+
+  it('splits an interval at local midnight', () => {
+    expect(intervalsToDailySeconds([{ start: at('2025-12-31', 23), end: at('2026-01-01', 1, 30) }])).toEqual({
+      '2025-12-31': HOUR,
+      '2026-01-01': 1.5 * HOUR
+    });
+  });
+
+  it('counts overlapping intervals once', () => {
+    expect(intervalsToDailySeconds([
+      { start: at('2026-10-18', 9), end: at('2026-10-18', 11) },
+      { start: at('2026-10-18', 10), end: at('2026-10-18', 12) }
+    ])).toEqual({ '2026-10-18': 3 * HOUR });
+  });
+
+  it('keeps a whole day the clocks change on that day', () => {
+    const date = zone.springForward ?? '2026-03-08';
+    const totals = intervalsToDailySeconds([{ start: at(date, 0), end: at(addDays(date, 1), 0) }]);
+    expect(totals).toEqual({ [date]: (zone.springForward ? 23 : 24) * HOUR });
+  });
+});
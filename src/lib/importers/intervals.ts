@@ -0,0 +1,52 @@
+import type { ParsedImport } from '../transfer';
+import { isValidDateString, validateAndClampHours } from '../validation';
+import { toDateKey } from '../dates';
+import type { ActivityInterval } from './types';
+
+// Merges overlapping intervals so activity reported by several sources isn't counted twice
+export const mergeIntervals = (intervals: ActivityInterval[]): ActivityInterval[] =>
+  [...intervals]
+    .filter(interval => interval.end > interval.start)
+    .sort((a, b) => a.start - b.start)
+    .reduce((merged: ActivityInterval[], interval) => {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        last.end = Math.max(last.end, interval.end);
+      } else {
+        merged.push({ ...interval });
+      }
+      return merged;
+    }, []);
+
+// Sums tracked time per local calendar day, splitting intervals at midnight
+export const intervalsToDailySeconds = (intervals: ActivityInterval[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  mergeIntervals(intervals).forEach(({ start, end }) => {
+    let cursor = start;
+    while (cursor < end) {
+      const day = new Date(cursor);
+      const nextMidnight = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1).getTime();
+      const partEnd = Math.min(end, nextMidnight);
+      const date = toDateKey(day);
+      totals[date] = (totals[date] || 0) + (partEnd - cursor) / 1000;
+      cursor = partEnd;
+    }
+  });
+  return totals;
+};
+
+// Converts per-day seconds into entries, applying the same rules as manual entry
+export const dailySecondsToImport = (totals: Record<string, number>): ParsedImport => {
+  const result: ParsedImport = { entries: [], errors: [] };
+  Object.keys(totals).sort().forEach(date => {
+    if (!isValidDateString(date)) {
+      result.errors.push(`Skipped ${date}: invalid or future date`);
+      return;
+    }
+    const hours = validateAndClampHours(totals[date] / 3600);
+    if (hours > 0) {
+      result.entries.push({ date, hours });
+    }
+  });
+  return result;
+};
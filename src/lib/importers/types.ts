@@ -0,0 +1,17 @@
+import type { ParsedImport } from '../transfer';
+
+export interface Importer {
+  id: string;
+  label: string;
+  // File extensions offered in the file picker, including the dot
+  extensions: string[];
+  // Cheap check on the file name and raw contents used to auto-detect the format
+  detect: (fileName: string, text: string) => boolean;
+  parse: (text: string) => ParsedImport;
+}
+
+// A span of tracked activity, in milliseconds since the epoch
+export interface ActivityInterval {
+  start: number;
+  end: number;
+}
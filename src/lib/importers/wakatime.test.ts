@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import days from './fixtures/wakatime-days.json?raw';
+import empty from './fixtures/wakatime-empty.json?raw';
+import malformed from './fixtures/wakatime-malformed.json?raw';
+import { wakaTimeImporter } from './wakatime';
+
+const parse = wakaTimeImporter.parse;
+
+describe('wakaTimeImporter', () => {
+  it('detects and reads a data dump', () => {
+    expect(wakaTimeImporter.detect('wakatime.json', days)).toBe(true);
+    expect(parse(days)).toEqual({
+      entries: [
+        { date: '2026-10-12', hours: 1.5 },
+        { date: '2026-10-14', hours: 4 }
+      ],
+      errors: []
+    });
+  });
+
+  it('reads an export without days as nothing to import', () => {
+    expect(parse(empty)).toEqual({ entries: [], errors: [] });
+  });
+
+  it('keeps the readable days of a malformed export and reports the rest', () => {
+    expect(parse(malformed)).toEqual({
+      entries: [{ date: '2026-10-13', hours: 1 }],
+      errors: ['Skipped 3 malformed WakaTime days']
+    });
+  });
+
+  it('explains files that are not an export', () => {
+    expect(parse('{"days": ')).toEqual({ entries: [], errors: ['File is not valid JSON'] });
+    expect(parse('null').errors).toEqual(['File is not a WakaTime export']);
+    expect(parse('[1, 2]').errors).toEqual(['File is not a WakaTime export']);
+    expect(parse('{"days": null}').errors).toEqual(['WakaTime "days" is not a list']);
+    expect(parse('{"data": {}}').errors).toEqual(['WakaTime "data" is not a list']);
+    expect(parse('{"user": {}}').errors).toEqual(['No WakaTime days or durations found in file']);
+  });
+});
@@ -0,0 +1,87 @@
+import type { ParsedImport } from '../transfer';
+import { dailySecondsToImport, intervalsToDailySeconds } from './intervals';
+import type { Importer } from './types';
+
+interface WakaTimeDay {
+  date: string;
+  grand_total: { total_seconds: number };
+}
+
+interface WakaTimeDuration {
+  time: number;
+  duration: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isWakaTimeDay = (day: unknown): day is WakaTimeDay =>
+  isObject(day) &&
+  typeof day.date === 'string' &&
+  isObject(day.grand_total) &&
+  typeof day.grand_total.total_seconds === 'number';
+
+const isWakaTimeDuration = (item: unknown): item is WakaTimeDuration =>
+  isObject(item) && typeof item.time === 'number' && typeof item.duration === 'number';
+
+const skippedError = (count: number, noun: string) =>
+  `Skipped ${count} malformed WakaTime ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Reads either the account data dump (`days[].grand_total`, already bucketed by
+ * WakaTime in the user's timezone) or a durations export (`data[]` of
+ * `{ time, duration }` in epoch seconds, bucketed here by local day).
+ */
+const parseWakaTime = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: ['File is not valid JSON'] };
+  }
+
+  if (!isObject(data)) {
+    return { entries: [], errors: ['File is not a WakaTime export'] };
+  }
+
+  if ('days' in data) {
+    if (!Array.isArray(data.days)) {
+      return { entries: [], errors: ['WakaTime "days" is not a list'] };
+    }
+    const days = data.days.filter(isWakaTimeDay);
+    const totals: Record<string, number> = {};
+    days.forEach(day => {
+      const seconds = day.grand_total.total_seconds;
+      if (seconds > 0) {
+        totals[day.date] = (totals[day.date] || 0) + seconds;
+      }
+    });
+    const result = dailySecondsToImport(totals);
+    const skipped = data.days.length - days.length;
+    return skipped > 0 ? { ...result, errors: [skippedError(skipped, 'day'), ...result.errors] } : result;
+  }
+
+  if ('data' in data) {
+    if (!Array.isArray(data.data)) {
+      return { entries: [], errors: ['WakaTime "data" is not a list'] };
+    }
+    const durations = data.data.filter(isWakaTimeDuration);
+    const result = dailySecondsToImport(intervalsToDailySeconds(
+      durations.map(item => ({ start: item.time * 1000, end: (item.time + item.duration) * 1000 }))
+    ));
+    const skipped = data.data.length - durations.length;
+    return skipped > 0 ? { ...result, errors: [skippedError(skipped, 'duration'), ...result.errors] } : result;
+  }
+
+  return { entries: [], errors: ['No WakaTime days or durations found in file'] };
+};
+
+export const wakaTimeImporter: Importer = {
+  id: 'wakatime',
+  label: 'WakaTime export',
+  extensions: ['.json'],
+  detect: (fileName, text) =>
+    fileName.toLowerCase().endsWith('.json') &&
+    (/"grand_total"\s*:/.test(text) || (/"duration"\s*:/.test(text) && /"time"\s*:/.test(text))),
+  parse: parseWakaTime
+};
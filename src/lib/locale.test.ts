@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { LOCALE_OPTIONS, getMonthNames, getWeekdayNames } from './locale';
+
+describe('getMonthNames', () => {
+  it('names months in full by default', () => {
+    expect(getMonthNames('en-US')[0]).toBe('January');
+  });
+
+  it.each([...LOCALE_OPTIONS])('gives twelve different short names in %s', locale => {
+    expect(new Set(getMonthNames(locale, 'short')).size).toBe(12);
+  });
+
+  it('keeps June and July apart in French', () => {
+    const [june, july] = getMonthNames('fr-FR', 'short').slice(5, 7);
+    expect(june).not.toBe(july);
+  });
+});
+
+describe('getWeekdayNames', () => {
+  it('starts on the given day', () => {
+    expect(getWeekdayNames('en-US', 0)).toEqual(['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']);
+    expect(getWeekdayNames('en-US', 1, 'long')[0]).toBe('Monday');
+  });
+
+  it.each([...LOCALE_OPTIONS])('gives seven different short names in %s', locale => {
+    expect(new Set(getWeekdayNames(locale, 0)).size).toBe(7);
+  });
+});
@@ -0,0 +1,66 @@
+import type { WeekStart } from './settings';
+
+// Offered in the settings panel alongside the browser's own locale
+export const LOCALE_OPTIONS = [
+  'en-US',
+  'en-GB',
+  'de-DE',
+  'fr-FR',
+  'es-ES',
+  'it-IT',
+  'nl-NL',
+  'pt-BR',
+  'pl-PL',
+  'sv-SE',
+  'ja-JP'
+];
+
+export const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+// Name of a locale in its own language, e.g. "Deutsch (Deutschland)"
+export const getLocaleLabel = (locale: string): string => {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'language' }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+};
+
+export const getMonthNames = (locale: string, width: 'long' | 'short' = 'long'): string[] => {
+  const format = new Intl.DateTimeFormat(locale, { month: width, timeZone: 'UTC' });
+  return Array.from({ length: 12 }, (_, month) => format.format(Date.UTC(2000, month, 15, 12)));
+};
+
+/**
+ * Weekday names starting from `weekStart`. Index i is the day (weekStart + i) % 7,
+ * so values indexed Sunday-first can be lined up with `orderWeekdays`.
+ */
+export const getWeekdayNames = (
+  locale: string,
+  weekStart: WeekStart,
+  width: 'long' | 'short' | 'narrow' = 'short'
+): string[] => {
+  const format = new Intl.DateTimeFormat(locale, { weekday: width, timeZone: 'UTC' });
+  // 2000-01-02 was a Sunday
+  return orderWeekdays(Array.from({ length: 7 }, (_, day) => format.format(Date.UTC(2000, 0, 2 + day, 12))), weekStart);
+};
+
+// Reorders a Sunday-first list of seven values to start on `weekStart`
+export const orderWeekdays = <T>(values: T[], weekStart: WeekStart): T[] =>
+  [...values.slice(weekStart), ...values.slice(0, weekStart)];
+
+// Formats a "YYYY-MM-DD" day without letting the viewer's time zone shift it
+export const formatDay = (
+  date: string,
+  locale: string,
+  options: Intl.DateTimeFormatOptions = { month: 'long', day: 'numeric' }
+): string => new Date(date + 'T12:00:00.000Z').toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+
+export const formatHours = (hours: number, locale: string): string =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(hours);
@@ -0,0 +1,92 @@
+/**
+ * The small slice of markdown day notes support: headings, bullet and
+ * numbered lists, paragraphs, and bold, italic, code and links inline.
+ * Notes are rendered from these tokens rather than as HTML, so nothing
+ * typed into a note can inject markup.
+ */
+
+export type InlineToken =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; content: InlineToken[] }
+  | { type: 'list'; ordered: boolean; items: InlineToken[][] }
+  | { type: 'paragraph'; content: InlineToken[] };
+
+// Italics need a matching marker and no word character either side, so snake_case stays as written
+const INLINE_PATTERN = /\*\*(.+?)\*\*|`([^`]+)`|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(?<![\w*])([*_])([^*_]+?)\5(?![\w*])/g;
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const BULLET_PATTERN = /^[-*]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\d+[.)]\s+(.*)$/;
+
+export const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      tokens.push({ type: 'text', text: text.slice(last, index) });
+    }
+    const [, bold, code, linkText, href, , italic] = match;
+    if (bold !== undefined) tokens.push({ type: 'bold', text: bold });
+    else if (code !== undefined) tokens.push({ type: 'code', text: code });
+    else if (href !== undefined) tokens.push({ type: 'link', text: linkText, href });
+    else tokens.push({ type: 'italic', text: italic });
+    last = index + match[0].length;
+  }
+  if (last < text.length) {
+    tokens.push({ type: 'text', text: text.slice(last) });
+  }
+  return tokens;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  source.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const heading = HEADING_PATTERN.exec(line);
+    const bullet = BULLET_PATTERN.exec(line);
+    const listItem = bullet ?? NUMBERED_PATTERN.exec(line);
+
+    if (!line) {
+      endParagraph();
+    } else if (heading) {
+      endParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, content: parseInline(heading[2]) });
+    } else if (listItem) {
+      endParagraph();
+      const ordered = !bullet;
+      const item = parseInline(listItem[1]);
+      const previous = blocks[blocks.length - 1];
+      // Consecutive items of the same kind share a list
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+    } else {
+      paragraph.push(line);
+    }
+  });
+  endParagraph();
+  return blocks;
+};
+
+const inlineText = (tokens: InlineToken[]) => tokens.map(token => token.text).join('');
+
+// Drops the markdown syntax, for places that can only show plain text such as tooltips
+export const toPlainText = (source: string): string =>
+  parseMarkdown(source)
+    .flatMap(block => (block.type === 'list' ? block.items.map(item => `• ${inlineText(item)}`) : [inlineText(block.content)]))
+    .join('\n');
@@ -0,0 +1,108 @@
+import type { DayEntry } from '../types';
+import { getSessionHours, getUntimedHours, roundHours } from './sessions';
+
+/**
+ * Sessions are attributed to a project by its name, so a project defined
+ * after sessions were tagged with that name picks them up automatically.
+ */
+export interface Project {
+  name: string;
+  // CSS colour used for the project's share of calendar bars and totals
+  color: string;
+}
+
+export interface ProjectHours {
+  // null for hours that aren't attributed to a project: untimed hours and untagged sessions
+  project: string | null;
+  hours: number;
+}
+
+export const MAX_PROJECT_NAME_LENGTH = 40;
+
+export const PROJECT_COLORS = ['#4ade80', '#38bdf8', '#f472b6', '#facc15', '#a78bfa', '#fb923c', '#2dd4bf', '#f87171'];
+
+export const UNASSIGNED_COLOR = '#52525b';
+
+// Sessions tagged with a name no project is defined for
+const UNKNOWN_PROJECT_COLOR = '#a1a1aa';
+
+export const getProjectColor = (projects: Project[], name: string | null): string =>
+  name === null ? UNASSIGNED_COLOR : projects.find(project => project.name === name)?.color ?? UNKNOWN_PROJECT_COLOR;
+
+// The first palette colour no project uses yet, cycling once all are taken
+export const getNextProjectColor = (projects: Project[]): string =>
+  PROJECT_COLORS.find(color => !projects.some(project => project.color === color)) ??
+  PROJECT_COLORS[projects.length % PROJECT_COLORS.length];
+
+// Hours of a day split by project, in the order the projects first appear
+export const getProjectBreakdown = (entry?: DayEntry): ProjectHours[] => {
+  if (!entry) return [];
+
+  const totals = new Map<string | null, number>();
+  (entry.sessions ?? []).forEach(session => {
+    const project = session.project ?? null;
+    totals.set(project, (totals.get(project) ?? 0) + getSessionHours(session));
+  });
+  const untimed = getUntimedHours(entry);
+  if (untimed > 0) {
+    totals.set(null, (totals.get(null) ?? 0) + untimed);
+  }
+
+  return Array.from(totals, ([project, hours]) => ({ project, hours: roundHours(hours) }))
+    .filter(({ hours }) => hours > 0);
+};
+
+export const getProjectHours = (entry: DayEntry | undefined, project: string): number =>
+  getProjectBreakdown(entry).find(item => item.project === project)?.hours ?? 0;
+
+// Totals per project between two dates inclusive, largest first
+export const getProjectTotals = (entries: DayEntry[], start: string, end: string): ProjectHours[] => {
+  const totals = new Map<string | null, number>();
+  entries
+    .filter(entry => entry.date >= start && entry.date <= end)
+    .forEach(entry => {
+      getProjectBreakdown(entry).forEach(({ project, hours }) => {
+        totals.set(project, (totals.get(project) ?? 0) + hours);
+      });
+    });
+
+  return Array.from(totals, ([project, hours]) => ({ project, hours: roundHours(hours) }))
+    .sort((a, b) => b.hours - a.hours);
+};
+
+/**
+ * Moves every session tagged `from` to `to`, or untags them when `to` is
+ * undefined. Used when a project is renamed or deleted.
+ */
+export const retagSessions = (entries: DayEntry[], from: string, to?: string): DayEntry[] =>
+  entries.map(entry => {
+    if (!entry.sessions?.some(session => session.project === from)) return entry;
+    return {
+      ...entry,
+      sessions: entry.sessions.map(session => {
+        if (session.project !== from) return session;
+        if (to) return { ...session, project: to };
+        const untagged = { ...session };
+        delete untagged.project;
+        return untagged;
+      })
+    };
+  });
+
+// Projects for the tags already used on sessions, so existing data keeps its attribution
+export const getTaggedProjects = (entries: unknown): Project[] => {
+  const names = new Set<string>();
+  (Array.isArray(entries) ? entries : []).forEach(entry => {
+    const sessions: unknown = entry?.sessions;
+    (Array.isArray(sessions) ? sessions : []).forEach(session => {
+      if (typeof session?.project === 'string' && session.project.trim()) {
+        names.add(session.project);
+      }
+    });
+  });
+
+  return Array.from(names).reduce<Project[]>(
+    (projects, name) => [...projects, { name, color: getNextProjectColor(projects) }],
+    []
+  );
+};
@@ -0,0 +1,48 @@
+// Not yet part of the DOM typings
+export interface BeforeInstallPromptEvent extends Event {
+  prompt: () => Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * Registers the service worker in production builds and reports when a new
+ * version has been installed and is waiting. Calling `activate` hands control
+ * to the waiting worker; the page reloads once it has taken over.
+ */
+export const registerServiceWorker = (onUpdateReady: (activate: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const notify = (worker: ServiceWorker) =>
+    onUpdateReady(() => worker.postMessage({ type: 'SKIP_WAITING' }));
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  navigator.serviceWorker.register('/sw.js')
+    .then(registration => {
+      if (registration.waiting && navigator.serviceWorker.controller) {
+        notify(registration.waiting);
+      }
+      registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        installing?.addEventListener('statechange', () => {
+          // Without a controller this is the first install, not an update
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            notify(installing);
+          }
+        });
+      });
+    })
+    .catch(err => console.error('Service worker registration failed:', err));
+};
+
+// Asks the browser not to evict stored entries under storage pressure
+export const requestPersistentStorage = async () => {
+  if (navigator.storage?.persist && !(await navigator.storage.persisted())) {
+    await navigator.storage.persist();
+  }
+};
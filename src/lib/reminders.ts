@@ -0,0 +1,72 @@
+import type { ReminderSettings } from './settings';
+import { timeToMinutes } from './sessions';
+import { isValidDateString } from './validation';
+
+// Quick actions offered on the notification, in hours
+export const REMINDER_QUICK_ADD_HOURS = [1, 2, 4];
+
+export const REMINDER_TAG = 'did-you-code-reminder';
+
+// A quick action tapped on a reminder, for the day the reminder was shown
+export interface QuickAddRequest {
+  date: string;
+  hours: number;
+}
+
+/**
+ * The next moment after `now` a reminder is due, or null when reminders are off
+ * or no day is selected.
+ */
+export const getNextReminderTime = (settings: ReminderSettings, now: Date): Date | null => {
+  if (!settings.enabled || settings.days.length === 0) return null;
+
+  const minutes = timeToMinutes(settings.time);
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, Math.floor(minutes / 60), minutes % 60);
+    if (candidate > now && settings.days.includes(candidate.getDay())) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+// `date` travels with the notification so a tap after midnight still logs the right day
+export const showReminder = async (date: string) => {
+  const title = 'Did you code today?';
+  const body = "You haven't logged any hours today.";
+
+  // Notification actions are only available through a service worker
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, {
+      body,
+      tag: REMINDER_TAG,
+      icon: '/icons/icon-192.png',
+      data: { date },
+      actions: REMINDER_QUICK_ADD_HOURS.map(hours => ({ action: `quick-add:${hours}`, title: `+${hours}h` }))
+    } as NotificationOptions);
+    return;
+  }
+
+  const notification = new Notification(title, { body, tag: REMINDER_TAG, icon: '/icons/icon-192.png' });
+  notification.onclick = () => window.focus();
+};
+
+/**
+ * Reads a quick add requested by a notification that had to open a new window.
+ * Anyone can link to such a URL, so callers ask before logging it, and only the
+ * amounts offered on the notification are accepted.
+ */
+export const takeQuickAddFromUrl = (): QuickAddRequest | null => {
+  const url = new URL(window.location.href);
+  const value = url.searchParams.get('quickAdd');
+  if (value === null) return null;
+
+  const date = url.searchParams.get('date');
+  url.searchParams.delete('quickAdd');
+  url.searchParams.delete('date');
+  window.history.replaceState(null, '', url.toString());
+  const hours = Number(value);
+  if (!REMINDER_QUICK_ADD_HOURS.includes(hours) || date === null || !isValidDateString(date)) return null;
+  return { date, hours };
+};
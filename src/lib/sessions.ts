@@ -0,0 +1,132 @@
+import type { DayEntry, WorkSession } from '../types';
+import { toPlainText } from './markdown';
+
+export const MAX_DAILY_HOURS = 24;
+
+// Characters allowed in a day's note
+export const MAX_NOTE_LENGTH = 2000;
+
+export const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const getSessionHours = (session: WorkSession): number =>
+  roundHours((timeToMinutes(session.end) - timeToMinutes(session.start)) / 60);
+
+export const getSessionsTotal = (entry?: DayEntry): number =>
+  roundHours((entry?.sessions ?? []).reduce((sum, session) => sum + getSessionHours(session), 0));
+
+// Hours added through quick add or manual entry that don't belong to a session
+export const getUntimedHours = (entry?: DayEntry): number =>
+  entry ? roundHours(entry.hours - getSessionsTotal(entry)) : 0;
+
+export const isValidTime = (time: string): boolean => /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+
+export const isValidSession = (value: unknown): value is WorkSession => {
+  if (typeof value !== 'object' || value === null) return false;
+  const session = value as Record<string, unknown>;
+  return (
+    typeof session.id === 'string' &&
+    typeof session.start === 'string' &&
+    typeof session.end === 'string' &&
+    isValidTime(session.start) &&
+    (isValidTime(session.end) || session.end === '24:00') &&
+    timeToMinutes(session.end) > timeToMinutes(session.start) &&
+    (session.project === undefined || typeof session.project === 'string') &&
+    (session.note === undefined || typeof session.note === 'string')
+  );
+};
+
+export const findOverlappingSession = (
+  sessions: WorkSession[],
+  start: string,
+  end: string
+): WorkSession | undefined => {
+  const startMinutes = timeToMinutes(start);
+  const endMinutes = timeToMinutes(end);
+  return sessions.find(session =>
+    startMinutes < timeToMinutes(session.end) && endMinutes > timeToMinutes(session.start)
+  );
+};
+
+export const createSessionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// What the session form holds; project and note are empty strings when left out
+export interface SessionDraft {
+  start: string;
+  end: string;
+  project: string;
+  note: string;
+}
+
+export const EMPTY_SESSION_DRAFT: SessionDraft = { start: '', end: '', project: '', note: '' };
+
+export const createSession = (draft: SessionDraft): WorkSession => ({
+  id: createSessionId(),
+  start: draft.start,
+  end: draft.end,
+  ...(draft.project.trim() && { project: draft.project.trim() }),
+  ...(draft.note.trim() && { note: draft.note.trim() })
+});
+
+/**
+ * Returns a new entries array with the day rebuilt from its untimed hours and sessions.
+ * The day keeps its note unless another is given; an empty note removes it.
+ * Days left with no hours, no sessions and no note are dropped.
+ */
+export const upsertDay = (
+  entries: DayEntry[],
+  date: string,
+  untimedHours: number,
+  sessions: WorkSession[],
+  note: string | undefined = entries.find(entry => entry.date === date)?.note
+): DayEntry[] => {
+  const sortedSessions = [...sessions].sort((a, b) => a.start.localeCompare(b.start));
+  const hours = roundHours(
+    untimedHours + sortedSessions.reduce((sum, session) => sum + getSessionHours(session), 0)
+  );
+  const index = entries.findIndex(entry => entry.date === date);
+
+  if (hours === 0 && sortedSessions.length === 0 && !note) {
+    return index === -1 ? entries : entries.filter(entry => entry.date !== date);
+  }
+
+  const entry: DayEntry = {
+    date,
+    hours,
+    ...(sortedSessions.length > 0 && { sessions: sortedSessions }),
+    ...(note && { note })
+  };
+
+  if (index === -1) {
+    return [...entries, entry];
+  }
+  const newEntries = [...entries];
+  newEntries[index] = entry;
+  return newEntries;
+};
+
+export const describeSession = (session: WorkSession): string => {
+  const details = [`${session.start}–${session.end} (${getSessionHours(session)}h)`];
+  if (session.project) details.push(session.project);
+  if (session.note) details.push(session.note);
+  return details.join(' · ');
+};
+
+// Multi-line breakdown of a day, used for calendar tooltips
+export const describeDay = (entry?: DayEntry): string => {
+  if (!entry) return '';
+  const lines = (entry.sessions ?? []).map(describeSession);
+  const untimed = getUntimedHours(entry);
+  if (untimed > 0) {
+    lines.push(`Untimed: ${untimed}h`);
+  }
+  if (entry.note) {
+    lines.push('', toPlainText(entry.note));
+  }
+  return [`${entry.hours}h total`, ...lines].join('\n');
+};
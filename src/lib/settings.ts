@@ -0,0 +1,56 @@
+import type { ShareStatId, ShareTemplate, ShareThemeId } from './share';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  // Local time of day in 24h "HH:MM" format
+  time: string;
+  // Days of the week the reminder runs on, Sunday (0) to Saturday (6)
+  days: number[];
+}
+
+export interface ShareSettings {
+  template: ShareTemplate;
+  theme: ShareThemeId;
+  // Stats shown on the image, in display order
+  stats: ShareStatId[];
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  // Base URL of a self-hosted sync server, e.g. "http://localhost:8787"
+  url: string;
+  // Must match the SYNC_TOKEN the server was started with
+  token: string;
+}
+
+// First day of the week in calendars: Sunday (0) or Monday (1)
+export type WeekStart = 0 | 1;
+
+export interface AppSettings {
+  // BCP 47 tag used for month and weekday names, dates and numbers
+  locale: string;
+  weekStart: WeekStart;
+  reminders: ReminderSettings;
+  share: ShareSettings;
+  sync: SyncSettings;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  locale: 'en-US',
+  weekStart: 0,
+  reminders: {
+    enabled: false,
+    time: '20:00',
+    days: [1, 2, 3, 4, 5]
+  },
+  share: {
+    template: 'month',
+    theme: 'matrix',
+    stats: ['monthHours', 'yearHours']
+  },
+  sync: {
+    enabled: false,
+    url: '',
+    token: ''
+  }
+};
@@ -0,0 +1,141 @@
+import type { Analytics } from './analytics';
+import { formatHours } from './locale';
+
+export type ShareTemplate = 'month' | 'year' | 'card';
+
+export type ShareThemeId = 'matrix' | 'ocean' | 'sunset' | 'paper';
+
+export type ShareStatId =
+  | 'monthHours'
+  | 'yearHours'
+  | 'currentStreak'
+  | 'longestStreak'
+  | 'activeDays'
+  | 'averagePerActiveDay'
+  | 'bestDay';
+
+export interface ShareTheme {
+  label: string;
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  muted: string;
+  // Heatmap colours from no hours to the highest intensity level
+  levels: string[];
+}
+
+export interface ShareStat {
+  label: string;
+  value: string;
+}
+
+export const SHARE_TEMPLATES: Record<ShareTemplate, { label: string; width: number; height: number }> = {
+  month: { label: 'Month grid', width: 800, height: 800 },
+  year: { label: 'Year heatmap', width: 1200, height: 520 },
+  // The size LinkedIn and Open Graph previews use
+  card: { label: 'Stats card (1200×630)', width: 1200, height: 630 }
+};
+
+// Exported images use inline colours so they don't depend on the page's stylesheet
+export const SHARE_THEMES: Record<ShareThemeId, ShareTheme> = {
+  matrix: {
+    label: 'Matrix',
+    background: '#18181b',
+    surface: '#27272a',
+    border: 'rgba(74, 222, 128, 0.2)',
+    text: '#4ade80',
+    muted: 'rgba(74, 222, 128, 0.6)',
+    levels: ['#3f3f46', '#14532d', '#15803d', '#22c55e', '#4ade80']
+  },
+  ocean: {
+    label: 'Ocean',
+    background: '#0f172a',
+    surface: '#1e293b',
+    border: 'rgba(56, 189, 248, 0.2)',
+    text: '#38bdf8',
+    muted: 'rgba(56, 189, 248, 0.6)',
+    levels: ['#334155', '#0c4a6e', '#0369a1', '#0ea5e9', '#38bdf8']
+  },
+  sunset: {
+    label: 'Sunset',
+    background: '#1c1917',
+    surface: '#292524',
+    border: 'rgba(251, 146, 60, 0.2)',
+    text: '#fb923c',
+    muted: 'rgba(251, 146, 60, 0.6)',
+    levels: ['#44403c', '#7c2d12', '#c2410c', '#f97316', '#fb923c']
+  },
+  paper: {
+    label: 'Paper',
+    background: '#ffffff',
+    surface: '#f4f4f5',
+    border: '#e4e4e7',
+    text: '#166534',
+    muted: '#52525b',
+    levels: ['#e4e4e7', '#bbf7d0', '#4ade80', '#16a34a', '#166534']
+  }
+};
+
+export const SHARE_STAT_LABELS: Record<ShareStatId, string> = {
+  monthHours: 'This Month',
+  yearHours: 'This Year',
+  currentStreak: 'Current Streak',
+  longestStreak: 'Longest Streak',
+  activeDays: 'Active Days',
+  averagePerActiveDay: 'Avg / Active Day',
+  bestDay: 'Best Day'
+};
+
+// More than this doesn't fit the header of the month and year templates
+export const MAX_SHARE_STATS = 4;
+
+// What the chosen stats are worked out from
+export interface ShareFigures {
+  year: number;
+  thisYear: number;
+  monthHours: number;
+  yearHours: number;
+  analytics: Analytics;
+}
+
+const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+const getShareStatValue = (stat: ShareStatId, { monthHours, yearHours, analytics }: ShareFigures, locale: string): string => {
+  switch (stat) {
+    case 'monthHours':
+      return `${formatHours(monthHours, locale)}h`;
+    case 'yearHours':
+      return `${formatHours(yearHours, locale)}h`;
+    case 'currentStreak':
+      return formatDays(analytics.currentStreak);
+    case 'longestStreak':
+      return formatDays(analytics.longestStreak);
+    case 'activeDays':
+      return String(analytics.activeDays);
+    case 'averagePerActiveDay':
+      return `${formatHours(analytics.averagePerActiveDay, locale)}h`;
+    case 'bestDay':
+      return analytics.bestDay ? `${formatHours(analytics.bestDay.hours, locale)}h` : '–';
+  }
+};
+
+// The picked stats, labelled and formatted for the share image
+export const getShareStats = (stats: ShareStatId[], figures: ShareFigures, locale: string): ShareStat[] =>
+  stats.map(stat => ({
+    label: stat === 'yearHours' && figures.year !== figures.thisYear ? String(figures.year) : SHARE_STAT_LABELS[stat],
+    value: getShareStatValue(stat, figures, locale)
+  }));
+
+export const getShareFileName = (year: number, today: string) => `coding-hours-${year}-${today}.png`;
+
+export const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], fileName, { type: blob.type || 'image/png' });
+};
+
+// Whether the Web Share API can send the image itself rather than just a link
+export const canShareFile = (file: File): boolean =>
+  typeof navigator !== 'undefined' &&
+  typeof navigator.canShare === 'function' &&
+  navigator.canShare({ files: [file] });
@@ -0,0 +1,72 @@
+// Minimal key/value contract every storage backend implements
+export interface StorageBackend {
+  read: (key: string) => Promise<string | null>;
+  write: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+// Resolves `localStorage` lazily so importing this module is safe outside the browser
+export const createLocalStorageBackend = (storage?: Storage): StorageBackend => {
+  const target = () => storage ?? localStorage;
+  return {
+    read: async key => target().getItem(key),
+    write: async (key, value) => target().setItem(key, value),
+    remove: async key => target().removeItem(key)
+  };
+};
+
+// Cleared when the browser tab closes; used for state that should only survive a reload
+export const createSessionStorageBackend = (): StorageBackend => createLocalStorageBackend(sessionStorage);
+
+// Keeps everything in a Map; meant for tests and for running without persistence
+export const createMemoryBackend = (initial: Record<string, string> = {}): StorageBackend => {
+  const values = new Map(Object.entries(initial));
+  return {
+    read: async key => values.get(key) ?? null,
+    write: async (key, value) => {
+      values.set(key, value);
+    },
+    remove: async key => {
+      values.delete(key);
+    }
+  };
+};
+
+const STORE_NAME = 'keyval';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbBackend = (databaseName = 'did-you-code'): StorageBackend => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      database = promisify(request);
+    }
+    return database;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return promisify(action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    read: async key => {
+      const value = await withStore('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    write: async (key, value) => {
+      await withStore('readwrite', store => store.put(value, key));
+    },
+    remove: async key => {
+      await withStore('readwrite', store => store.delete(key));
+    }
+  };
+};
@@ -0,0 +1,22 @@
+import { createLocalStorageBackend } from './backends';
+import { createEntryRepository } from './repository';
+import { createSyncClient } from './sync';
+
+export {
+  createIndexedDbBackend,
+  createLocalStorageBackend,
+  createMemoryBackend,
+  createSessionStorageBackend
+} from './backends';
+export type { StorageBackend } from './backends';
+export { createEntryRepository } from './repository';
+export type { EntryRepository, LoadResult } from './repository';
+export type { StoredData } from './schema';
+export { SYNC_DELAY_MS, SYNC_INTERVAL_MS, SYNC_STORAGE_KEY, createSyncClient, normalizeServerUrl } from './sync';
+export type { SyncClient, SyncResult, SyncStatus } from './sync';
+
+// The repository the app reads and writes through
+export const repository = createEntryRepository(createLocalStorageBackend());
+
+// Tracks local edits and exchanges them with the optional sync server
+export const syncClient = createSyncClient(createLocalStorageBackend());
@@ -0,0 +1,66 @@
+import type { StorageBackend } from './backends';
+import { getTaggedProjects } from '../projects';
+import { SCHEMA_VERSION, StoredDocument } from './schema';
+
+// Keys written by earlier versions of the app
+export const LEGACY_KEYS = {
+  // A bare entries array, 2025 only
+  entries2025: 'codingHours2025',
+  // A bare entries array covering all years, with goals stored separately
+  entries: 'codingHours',
+  goals: 'codingGoals'
+};
+
+type Migration = (document: StoredDocument) => StoredDocument;
+
+// Keyed by the version a document is migrated *from*
+const migrations: Record<number, Migration> = {
+  // v1 is the shape assembled from the legacy keys; v2 only moved it under one key
+  1: document => ({ ...document, version: 2 }),
+  // v3 added settings; validateData fills in defaults for anything missing
+  2: document => ({ ...document, version: 3 }),
+  // v4 added projects, seeded from the free-text project tags sessions already carried
+  3: document => ({ ...document, projects: getTaggedProjects(document.entries), version: 4 })
+};
+
+export const migrate = (document: StoredDocument): StoredDocument => {
+  let current = document;
+  while (current.version < SCHEMA_VERSION) {
+    const migration = migrations[current.version];
+    if (!migration) {
+      throw new Error(`No migration from storage version ${current.version}`);
+    }
+    current = migration(current);
+  }
+  return current;
+};
+
+export interface LegacyValue {
+  key: string;
+  raw: string;
+}
+
+// Raw values of whichever legacy keys exist, preferring the all-years entries key
+export const readLegacyValues = async (backend: StorageBackend): Promise<{
+  entries: LegacyValue | null;
+  goals: LegacyValue | null;
+}> => {
+  const [entries, entries2025, goals] = await Promise.all([
+    backend.read(LEGACY_KEYS.entries),
+    backend.read(LEGACY_KEYS.entries2025),
+    backend.read(LEGACY_KEYS.goals)
+  ]);
+
+  return {
+    entries: entries !== null
+      ? { key: LEGACY_KEYS.entries, raw: entries }
+      : entries2025 !== null
+        ? { key: LEGACY_KEYS.entries2025, raw: entries2025 }
+        : null,
+    goals: goals !== null ? { key: LEGACY_KEYS.goals, raw: goals } : null
+  };
+};
+
+export const removeLegacyKeys = async (backend: StorageBackend) => {
+  await Promise.all(Object.values(LEGACY_KEYS).map(key => backend.remove(key)));
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { StorageBackend, createMemoryBackend } from './backends';
+import { BACKUP_KEY_PREFIX, STORAGE_KEY, createEntryRepository } from './repository';
+import { SCHEMA_VERSION } from './schema';
+
+// Loads a stored document and returns what was loaded along with every backup written
+const load = async (document: Record<string, unknown>) => {
+  const raw = JSON.stringify({ version: SCHEMA_VERSION, ...document });
+  const memory = createMemoryBackend({ [STORAGE_KEY]: raw });
+  const backups: string[] = [];
+  const backend: StorageBackend = {
+    ...memory,
+    write: async (key, value) => {
+      if (key.startsWith(BACKUP_KEY_PREFIX)) backups.push(value);
+      return memory.write(key, value);
+    }
+  };
+  const result = await createEntryRepository(backend).load();
+  return { raw, result, backups, stored: JSON.parse((await memory.read(STORAGE_KEY)) ?? 'null') };
+};
+
+describe('createEntryRepository', () => {
+  it('loads valid data without warnings or backups', async () => {
+    const { result, backups } = await load({ entries: [{ date: '2026-10-18', hours: 2 }], goals: [], projects: [] });
+    expect(result.warnings).toEqual([]);
+    expect(result.data.entries).toEqual([{ date: '2026-10-18', hours: 2 }]);
+    expect(backups).toEqual([]);
+  });
+
+  it('backs up and warns about lists that are not lists', async () => {
+    const { raw, result, backups, stored } = await load({ entries: { '2026-10-18': 2 }, goals: 'none', projects: [] });
+    expect(result.data.entries).toEqual([]);
+    expect(result.data.goals).toEqual([]);
+    expect(result.warnings).toEqual([
+      'Saved entries could not be read and were backed up.',
+      'Saved goals could not be read and were backed up.'
+    ]);
+    expect(backups).toEqual([raw]);
+    expect(stored.entries).toEqual([]);
+  });
+
+  it('backs up and warns about invalid records', async () => {
+    const { raw, result, backups } = await load({ entries: [{ date: '2026-10-18', hours: 2 }, { date: 'x', hours: 1 }] });
+    expect(result.data.entries).toEqual([{ date: '2026-10-18', hours: 2 }]);
+    expect(result.warnings).toEqual(['Skipped 1 invalid saved record.']);
+    expect(backups).toEqual([raw]);
+  });
+});
@@ -0,0 +1,103 @@
+import type { StorageBackend } from './backends';
+import { migrate, readLegacyValues, removeLegacyKeys } from './migrations';
+import { EMPTY_DATA, SCHEMA_VERSION, StoredData, StoredDocument, validateData } from './schema';
+
+export const STORAGE_KEY = 'didYouCode';
+export const BACKUP_KEY_PREFIX = 'didYouCode.backup.';
+
+export interface LoadResult {
+  data: StoredData;
+  // Human-readable notes about anything that had to be recovered or dropped
+  warnings: string[];
+}
+
+export interface EntryRepository {
+  load: () => Promise<LoadResult>;
+  save: (data: StoredData) => Promise<void>;
+}
+
+const parse = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createEntryRepository = (backend: StorageBackend): EntryRepository => {
+  // Keeps anything we couldn't fully read so it can be recovered by hand later
+  const backup = (raw: string) => backend.write(`${BACKUP_KEY_PREFIX}${Date.now()}`, raw);
+
+  const save = (data: StoredData) => {
+    const document: StoredDocument = { version: SCHEMA_VERSION, ...data };
+    return backend.write(STORAGE_KEY, JSON.stringify(document));
+  };
+
+  const loadLegacy = async (warnings: string[]): Promise<StoredDocument | null> => {
+    const legacy = await readLegacyValues(backend);
+    if (!legacy.entries && !legacy.goals) {
+      return null;
+    }
+
+    const document: StoredDocument = { version: 1, ...EMPTY_DATA };
+    for (const [field, value] of [['entries', legacy.entries], ['goals', legacy.goals]] as const) {
+      if (!value) continue;
+      const parsed = parse(value.raw);
+      if (Array.isArray(parsed)) {
+        document[field] = parsed;
+      } else {
+        await backup(value.raw);
+        warnings.push(`Saved ${field} could not be read and were backed up.`);
+      }
+    }
+    return document;
+  };
+
+  const load = async (): Promise<LoadResult> => {
+    const warnings: string[] = [];
+    const raw = await backend.read(STORAGE_KEY);
+
+    let document: StoredDocument | null;
+    if (raw === null) {
+      document = await loadLegacy(warnings);
+      if (!document) {
+        return { data: EMPTY_DATA, warnings };
+      }
+    } else {
+      const parsed = parse(raw);
+      if (!isObject(parsed) || typeof parsed.version !== 'number') {
+        await backup(raw);
+        return { data: EMPTY_DATA, warnings: ['Saved data was corrupted and has been backed up. Starting fresh.'] };
+      }
+      if (parsed.version > SCHEMA_VERSION) {
+        warnings.push('Saved data comes from a newer version of the app. Some details may be missing.');
+      }
+      document = parsed as unknown as StoredDocument;
+    }
+
+    const { data, dropped, malformed } = validateData(document.version < SCHEMA_VERSION ? migrate(document) : document);
+    const isDamaged = dropped > 0 || malformed.length > 0;
+    if (isDamaged) {
+      await backup(raw ?? JSON.stringify(document));
+    }
+    malformed.forEach(field => warnings.push(`Saved ${field} could not be read and were backed up.`));
+    if (dropped > 0) {
+      warnings.push(`Skipped ${dropped} invalid saved ${dropped === 1 ? 'record' : 'records'}.`);
+    }
+
+    // Persist the upgraded document before the legacy keys are dropped
+    if (raw === null || document.version < SCHEMA_VERSION || isDamaged) {
+      await save(data);
+      if (raw === null) {
+        await removeLegacyKeys(backend);
+      }
+    }
+
+    return { data, warnings };
+  };
+
+  return { load, save };
+};
@@ -0,0 +1,162 @@
+import type { DayEntry } from '../../types';
+import type { Goal } from '../goals';
+import { MAX_PROJECT_NAME_LENGTH, Project } from '../projects';
+import { MAX_DAILY_HOURS, MAX_NOTE_LENGTH, isValidSession, isValidTime, roundHours } from '../sessions';
+import { AppSettings, DEFAULT_SETTINGS, ReminderSettings, ShareSettings, SyncSettings } from '../settings';
+import { MAX_SHARE_STATS, SHARE_STAT_LABELS, SHARE_TEMPLATES, SHARE_THEMES } from '../share';
+import { isSupportedLocale } from '../locale';
+import { isDateKey } from '../dates';
+
+export const SCHEMA_VERSION = 4;
+
+export interface StoredData {
+  entries: DayEntry[];
+  goals: Goal[];
+  projects: Project[];
+  settings: AppSettings;
+}
+
+export interface StoredDocument extends StoredData {
+  version: number;
+}
+
+export const EMPTY_DATA: StoredData = { entries: [], goals: [], projects: [], settings: DEFAULT_SETTINGS };
+
+const isHours = (value: unknown, max: number): value is number =>
+  typeof value === 'number' && isFinite(value) && value >= 0 && value <= max;
+
+// Returns a clean copy of a stored entry, or null when it can't be trusted
+export const sanitizeEntry = (value: unknown): DayEntry | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { date, hours, sessions, note } = value as Record<string, unknown>;
+  if (!isDateKey(date) || !isHours(hours, MAX_DAILY_HOURS)) return null;
+  if (note !== undefined && typeof note !== 'string') return null;
+
+  const entry: DayEntry = { date, hours: roundHours(hours) };
+  if (sessions !== undefined) {
+    if (!Array.isArray(sessions) || !sessions.every(isValidSession)) return null;
+    if (sessions.length > 0) entry.sessions = sessions;
+  }
+  if (note) entry.note = note.slice(0, MAX_NOTE_LENGTH);
+  return entry;
+};
+
+export const sanitizeGoal = (value: unknown): Goal | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { effectiveFrom, weekdayHours, weekendHours, weeklyHours, yearlyHours } = value as Record<string, unknown>;
+  if (
+    !isDateKey(effectiveFrom) ||
+    !isHours(weekdayHours, 24) ||
+    !isHours(weekendHours, 24) ||
+    !isHours(weeklyHours, 168) ||
+    !isHours(yearlyHours, 8784)
+  ) {
+    return null;
+  }
+  return { effectiveFrom, weekdayHours, weekendHours, weeklyHours, yearlyHours };
+};
+
+export const sanitizeProject = (value: unknown): Project | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, color } = value as Record<string, unknown>;
+  if (
+    typeof name !== 'string' ||
+    !name.trim() ||
+    name.length > MAX_PROJECT_NAME_LENGTH ||
+    typeof color !== 'string' ||
+    !/^#[0-9a-f]{6}$/i.test(color)
+  ) {
+    return null;
+  }
+  return { name, color };
+};
+
+const sanitizeShareSettings = (value: unknown): ShareSettings => {
+  const defaults = DEFAULT_SETTINGS.share;
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as Partial<ShareSettings>;
+  const stats = Array.isArray(raw.stats)
+    ? Array.from(new Set(raw.stats.filter(stat => typeof stat === 'string' && stat in SHARE_STAT_LABELS))).slice(0, MAX_SHARE_STATS)
+    : defaults.stats;
+  return {
+    template: typeof raw.template === 'string' && raw.template in SHARE_TEMPLATES ? raw.template : defaults.template,
+    theme: typeof raw.theme === 'string' && raw.theme in SHARE_THEMES ? raw.theme : defaults.theme,
+    stats
+  };
+};
+
+const sanitizeSyncSettings = (value: unknown): SyncSettings => {
+  const defaults = DEFAULT_SETTINGS.sync;
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as Partial<SyncSettings>;
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : defaults.enabled,
+    url: typeof raw.url === 'string' ? raw.url : defaults.url,
+    token: typeof raw.token === 'string' ? raw.token : defaults.token
+  };
+};
+
+// Settings fall back to their defaults field by field rather than being dropped
+export const sanitizeSettings = (value: unknown): AppSettings => {
+  if (typeof value !== 'object' || value === null) return DEFAULT_SETTINGS;
+  const { locale, weekStart, reminders, share, sync } = value as Record<string, unknown>;
+
+  const defaults = DEFAULT_SETTINGS.reminders;
+  const raw = (typeof reminders === 'object' && reminders !== null ? reminders : {}) as Partial<ReminderSettings>;
+  return {
+    locale: typeof locale === 'string' && isSupportedLocale(locale) ? locale : DEFAULT_SETTINGS.locale,
+    weekStart: weekStart === 0 || weekStart === 1 ? weekStart : DEFAULT_SETTINGS.weekStart,
+    reminders: {
+      enabled: typeof raw.enabled === 'boolean' ? raw.enabled : defaults.enabled,
+      time: typeof raw.time === 'string' && isValidTime(raw.time) ? raw.time : defaults.time,
+      days: Array.isArray(raw.days) && raw.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+        ? Array.from(new Set(raw.days)).sort()
+        : defaults.days
+    },
+    share: sanitizeShareSettings(share),
+    sync: sanitizeSyncSettings(sync)
+  };
+};
+
+type ListField = 'entries' | 'goals' | 'projects';
+
+/**
+ * Keeps every valid record and reports how many were dropped, and which lists
+ * were there but weren't lists at all. Later duplicates of a date are discarded
+ * so a day is never counted twice, and likewise for project names.
+ */
+export const validateData = (data: {
+  entries?: unknown;
+  goals?: unknown;
+  projects?: unknown;
+  settings?: unknown;
+}): { data: StoredData; dropped: number; malformed: ListField[] } => {
+  const malformed = (['entries', 'goals', 'projects'] as const).filter(
+    field => data[field] !== undefined && !Array.isArray(data[field])
+  );
+  const rawEntries = Array.isArray(data.entries) ? data.entries : [];
+  const rawGoals = Array.isArray(data.goals) ? data.goals : [];
+  const rawProjects = Array.isArray(data.projects) ? data.projects : [];
+
+  const seen = new Set<string>();
+  const entries = rawEntries
+    .map(sanitizeEntry)
+    .filter((entry): entry is DayEntry => {
+      if (!entry || seen.has(entry.date)) return false;
+      seen.add(entry.date);
+      return true;
+    });
+  const goals = rawGoals.map(sanitizeGoal).filter((goal): goal is Goal => goal !== null);
+  const names = new Set<string>();
+  const projects = rawProjects
+    .map(sanitizeProject)
+    .filter((project): project is Project => {
+      if (!project || names.has(project.name)) return false;
+      names.add(project.name);
+      return true;
+    });
+
+  return {
+    data: { entries, goals, projects, settings: sanitizeSettings(data.settings) },
+    dropped: rawEntries.length - entries.length + rawGoals.length - goals.length + rawProjects.length - projects.length,
+    malformed
+  };
+};
@@ -0,0 +1,156 @@
+import type { DayEntry } from '../../types';
+import type { SyncSettings } from '../settings';
+import type { StorageBackend } from './backends';
+import { EntryChange, applyChanges, diffEntries } from '../history';
+import { SyncedDay, parseSyncPayload } from '../sync';
+
+export const SYNC_STORAGE_KEY = 'didYouCode.sync';
+
+// How long after an edit it is sent, so a burst of edits goes out together
+export const SYNC_DELAY_MS = 2000;
+
+// How often the server is polled for changes made on other devices
+export const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+interface SyncState {
+  // Server the days were last synced with; a different server is sent every day
+  url: string | null;
+  // Days changed locally and not yet accepted by the server, with when they changed
+  pending: Record<string, number>;
+  lastSyncedAt: number | null;
+}
+
+export interface SyncStatus {
+  pending: number;
+  lastSyncedAt: number | null;
+}
+
+export interface SyncResult {
+  // The latest local entries with the server's copy of every day applied
+  entries: DayEntry[];
+  // Days that changed locally because of the server's copy
+  pulled: number;
+}
+
+export interface SyncClient {
+  // Records the days that differ between two versions of the local entries
+  track: (before: DayEntry[], after: DayEntry[]) => Promise<void>;
+  /**
+   * Sends pending days to the server and applies what it returns. `getEntries`
+   * is read again once the server replies, so edits made in the meantime are
+   * kept and stay pending for the next sync.
+   */
+  sync: (settings: SyncSettings, getEntries: () => DayEntry[]) => Promise<SyncResult>;
+  getStatus: () => Promise<SyncStatus>;
+}
+
+const EMPTY_STATE: SyncState = { url: null, pending: {}, lastSyncedAt: null };
+
+const parseState = (raw: string | null): SyncState => {
+  if (!raw) return { ...EMPTY_STATE, pending: {} };
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      url: typeof parsed.url === 'string' ? parsed.url : null,
+      pending: typeof parsed.pending === 'object' && parsed.pending !== null
+        ? Object.fromEntries(
+          Object.entries(parsed.pending).filter((pair): pair is [string, number] => typeof pair[1] === 'number')
+        )
+        : {},
+      lastSyncedAt: typeof parsed.lastSyncedAt === 'number' ? parsed.lastSyncedAt : null
+    };
+  } catch {
+    return { ...EMPTY_STATE, pending: {} };
+  }
+};
+
+export const normalizeServerUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const createSyncClient = (
+  backend: StorageBackend,
+  request: typeof fetch = (...args) => fetch(...args),
+  now: () => number = Date.now
+): SyncClient => {
+  // Loaded once and then changed in place, so a track() during a sync is never lost
+  let state: Promise<SyncState> | null = null;
+  const getState = () => (state ??= backend.read(SYNC_STORAGE_KEY).then(parseState));
+  const saveState = async () => backend.write(SYNC_STORAGE_KEY, JSON.stringify(await getState()));
+
+  const track = async (before: DayEntry[], after: DayEntry[]) => {
+    const changes = diffEntries(before, after);
+    if (changes.length === 0) return;
+    const current = await getState();
+    const changedAt = now();
+    changes.forEach(({ date }) => {
+      current.pending[date] = changedAt;
+    });
+    await saveState();
+  };
+
+  const sync = async (settings: SyncSettings, getEntries: () => DayEntry[]): Promise<SyncResult> => {
+    const url = normalizeServerUrl(settings.url);
+    if (!url) {
+      throw new Error('Enter the address of your sync server first');
+    }
+
+    const current = await getState();
+    const sent = { ...current.pending };
+    const entries = getEntries();
+    // A server we haven't synced with yet gets every local day; untouched ones lose to any copy it has
+    const dates = current.url === url
+      ? Object.keys(sent)
+      : Array.from(new Set([...entries.map(entry => entry.date), ...Object.keys(sent)]));
+    const days: SyncedDay[] = dates.map(date => ({
+      date,
+      entry: entries.find(entry => entry.date === date) ?? null,
+      updatedAt: sent[date] ?? 0
+    }));
+
+    let response: Response;
+    try {
+      response = await request(`${url}/entries`, {
+        method: days.length > 0 ? 'PUT' : 'GET',
+        headers: {
+          Authorization: `Bearer ${settings.token}`,
+          ...(days.length > 0 && { 'Content-Type': 'application/json' })
+        },
+        ...(days.length > 0 && { body: JSON.stringify({ days }) })
+      });
+    } catch {
+      throw new Error('Sync server is unreachable. Changes are kept and will sync later.');
+    }
+    if (response.status === 401) {
+      throw new Error('The sync server rejected the token');
+    }
+    if (!response.ok) {
+      throw new Error(`Sync failed: the server responded with ${response.status}`);
+    }
+    const payload = parseSyncPayload(await response.json().catch(() => null));
+    if (!payload) {
+      throw new Error('Sync failed: the server sent an invalid response');
+    }
+
+    Object.entries(sent).forEach(([date, updatedAt]) => {
+      if (current.pending[date] === updatedAt) {
+        delete current.pending[date];
+      }
+    });
+    current.url = url;
+    current.lastSyncedAt = now();
+    await saveState();
+
+    const latest = getEntries();
+    const changes: EntryChange[] = payload.days
+      .filter(day => !(day.date in current.pending))
+      .map(day => ({ date: day.date, before: null, after: day.entry }));
+    const merged = applyChanges(latest, changes, 'redo');
+    return { entries: merged, pulled: diffEntries(latest, merged).length };
+  };
+
+  const getStatus = async (): Promise<SyncStatus> => {
+    const current = await getState();
+    return { pending: Object.keys(current.pending).length, lastSyncedAt: current.lastSyncedAt };
+  };
+
+  return { track, sync, getStatus };
+};
@@ -0,0 +1,56 @@
+import type { DayEntry } from '../types';
+import { sanitizeEntry } from './storage/schema';
+import { isDateKey } from './dates';
+
+/**
+ * Sync exchanges whole days. Every day carries the time it was last changed
+ * and the newest copy of a day wins. A null entry records that the day was
+ * cleared, so a deletion can win over an older copy elsewhere.
+ *
+ * Shared by the sync server and the client so both merge the same way.
+ */
+export interface SyncedDay {
+  date: string;
+  entry: DayEntry | null;
+  // Milliseconds since the epoch on the device that made the change
+  updatedAt: number;
+}
+
+export interface SyncPayload {
+  days: SyncedDay[];
+}
+
+export const sanitizeSyncedDay = (value: unknown): SyncedDay | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { date, entry, updatedAt } = value as Record<string, unknown>;
+  if (!isDateKey(date) || typeof updatedAt !== 'number' || !isFinite(updatedAt) || updatedAt < 0) {
+    return null;
+  }
+  if (entry === null) {
+    return { date, entry: null, updatedAt };
+  }
+  const sanitized = sanitizeEntry(entry);
+  return sanitized && sanitized.date === date ? { date, entry: sanitized, updatedAt } : null;
+};
+
+// Reads a request or response body, dropping days that can't be trusted
+export const parseSyncPayload = (value: unknown): { days: SyncedDay[]; dropped: number } | null => {
+  if (typeof value !== 'object' || value === null || !Array.isArray((value as SyncPayload).days)) {
+    return null;
+  }
+  const raw = (value as SyncPayload).days as unknown[];
+  const days = raw.map(sanitizeSyncedDay).filter((day): day is SyncedDay => day !== null);
+  return { days, dropped: raw.length - days.length };
+};
+
+// Last write wins per day; on equal timestamps the current copy is kept
+export const mergeSyncedDays = (current: SyncedDay[], incoming: SyncedDay[]): SyncedDay[] => {
+  const byDate = new Map(current.map(day => [day.date, day]));
+  incoming.forEach(day => {
+    const existing = byDate.get(day.date);
+    if (!existing || day.updatedAt > existing.updatedAt) {
+      byDate.set(day.date, day);
+    }
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
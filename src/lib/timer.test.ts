@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { describeInTimezones } from '../test/timezones';
+import { addDays } from './dates';
+import { addTimerSessions } from './entries';
+import { EMPTY_TIMER, TimerState, getElapsedMs, parseTimer, timerToSessions } from './timer';
+
+const at = (date: string, time: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes).getTime();
+};
+
+const sessionsOf = (state: TimerState, now: number) =>
+  timerToSessions(state, now).map(({ date, session }) => ({ date, start: session.start, end: session.end }));
+
+describeInTimezones('timerToSessions', zone => {
+  it('logs a stopped segment on its local day', () => {
+    const state = { segments: [{ start: at('2026-10-18', '09:15'), end: at('2026-10-18', '10:45') }], runningSince: null };
+    expect(sessionsOf(state, 0)).toEqual([{ date: '2026-10-18', start: '09:15', end: '10:45' }]);
+  });
+
+  it('splits a segment at local midnight', () => {
+    const state = { segments: [{ start: at('2025-12-31', '23:30'), end: at('2026-01-01', '00:45') }], runningSince: null };
+    expect(sessionsOf(state, 0)).toEqual([
+      { date: '2025-12-31', start: '23:30', end: '24:00' },
+      { date: '2026-01-01', start: '00:00', end: '00:45' }
+    ]);
+  });
+
+  it('includes a still running segment up to now', () => {
+    const state = { segments: [], runningSince: at('2026-10-19', '08:00') };
+    expect(sessionsOf(state, at('2026-10-19', '08:30'))).toEqual([{ date: '2026-10-19', start: '08:00', end: '08:30' }]);
+  });
+
+  it('drops segments shorter than a minute', () => {
+    const start = at('2026-10-19', '08:00');
+    expect(sessionsOf({ segments: [{ start, end: start + 30_000 }], runningSince: null }, 0)).toEqual([]);
+  });
+
+  it('splits a night that runs into a day the clocks change', () => {
+    const date = zone.springForward ?? '2026-03-08';
+    const before = addDays(date, -1);
+    const state = { segments: [{ start: at(before, '23:00'), end: at(date, '04:00') }], runningSince: null };
+    expect(sessionsOf(state, 0)).toEqual([
+      { date: before, start: '23:00', end: '24:00' },
+      { date, start: '00:00', end: '04:00' }
+    ]);
+  });
+
+  it.skipIf(!zone.fallBack)('rejects rather than drops a segment in the hour repeated when the clocks go back', () => {
+    const { date, repeatedHour } = zone.fallBack!;
+    const hour = String(repeatedHour).padStart(2, '0');
+    // 20 real minutes, from hh:50 before the clocks go back to hh:10 after
+    const start = at(date, `${hour}:50`);
+    const state = { segments: [{ start, end: start + 20 * 60_000 }], runningSince: null };
+    const sessions = timerToSessions(state, 0);
+    expect(sessions.map(({ date, session }) => ({ date, start: session.start, end: session.end }))).toEqual([
+      { date, start: `${hour}:50`, end: `${hour}:10` }
+    ]);
+    expect(addTimerSessions([], sessions)).toEqual({ ok: false, error: `Session must end after it starts (${date})` });
+  });
+});
+
+describe('parseTimer', () => {
+  it('reads a saved timer', () => {
+    const state = { segments: [{ start: 1000, end: 61_000 }], runningSince: 120_000 };
+    expect(parseTimer(JSON.stringify(state))).toEqual(state);
+  });
+
+  it('starts fresh from anything that is not a timer', () => {
+    [null, '', 'not json', 'null', '42', '{"foo":1}'].forEach(raw => {
+      const state = parseTimer(raw);
+      expect(state).toEqual(EMPTY_TIMER);
+      expect(getElapsedMs(state, 0)).toBe(0);
+    });
+  });
+
+  it('drops segments and start times that are not times', () => {
+    const raw = JSON.stringify({
+      segments: [{ start: 1000, end: 61_000 }, { start: 'x', end: 5 }, { start: 9000, end: 1000 }, null],
+      runningSince: 'soon'
+    });
+    expect(parseTimer(raw)).toEqual({ segments: [{ start: 1000, end: 61_000 }], runningSince: null });
+  });
+});
@@ -0,0 +1,109 @@
+import type { WorkSession } from '../types';
+import type { StorageBackend } from './storage';
+import { createSessionId } from './sessions';
+import { toDateKey } from './dates';
+
+export interface TimerSegment {
+  start: number;
+  end: number;
+}
+
+// Persisted so a running timer survives a page reload
+export interface TimerState {
+  segments: TimerSegment[];
+  runningSince: number | null;
+}
+
+export const TIMER_STORAGE_KEY = 'codingTimer';
+
+export const EMPTY_TIMER: TimerState = { segments: [], runningSince: null };
+
+const isTime = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+const isSegment = (value: unknown): value is TimerSegment => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { start, end } = value as Record<string, unknown>;
+  return isTime(start) && isTime(end) && end >= start;
+};
+
+// Keeps the valid segments of a saved timer; anything unreadable starts a fresh one
+export const parseTimer = (raw: string | null): TimerState => {
+  if (!raw) return EMPTY_TIMER;
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null) return EMPTY_TIMER;
+    return {
+      segments: Array.isArray(parsed.segments)
+        ? parsed.segments.filter(isSegment).map(({ start, end }: TimerSegment) => ({ start, end }))
+        : [],
+      runningSince: isTime(parsed.runningSince) ? parsed.runningSince : null
+    };
+  } catch {
+    return EMPTY_TIMER;
+  }
+};
+
+export const loadTimer = async (backend: StorageBackend): Promise<TimerState> =>
+  parseTimer(await backend.read(TIMER_STORAGE_KEY));
+
+export const saveTimer = (backend: StorageBackend, state: TimerState): Promise<void> =>
+  state.segments.length === 0 && state.runningSince === null
+    ? backend.remove(TIMER_STORAGE_KEY)
+    : backend.write(TIMER_STORAGE_KEY, JSON.stringify(state));
+
+export const getElapsedMs = (state: TimerState, now: number): number =>
+  state.segments.reduce((sum, segment) => sum + segment.end - segment.start, 0) +
+  (state.runningSince !== null ? now - state.runningSince : 0);
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => n.toString().padStart(2, '0')).join(':');
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const toLocalTimeString = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export interface DaySession {
+  date: string;
+  session: WorkSession;
+}
+
+// Truncates on the instant itself; going through local time would pick the wrong offset in a repeated hour
+const toMinute = (ms: number) => new Date(Math.floor(ms / 60000) * 60000);
+
+/**
+ * Turns a stopped timer into sessions, splitting any segment that crosses local
+ * midnight so each part is logged on its own day. Times are truncated to the minute
+ * and segments shorter than a minute are dropped.
+ */
+export const timerToSessions = (state: TimerState, now: number): DaySession[] => {
+  const segments = state.runningSince !== null
+    ? [...state.segments, { start: state.runningSince, end: now }]
+    : state.segments;
+
+  const result: DaySession[] = [];
+  segments.forEach(segment => {
+    let cursor = toMinute(segment.start);
+    const end = toMinute(segment.end);
+
+    while (cursor < end) {
+      const nextMidnight = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1);
+      const partEnd = end < nextMidnight ? end : nextMidnight;
+      result.push({
+        date: toDateKey(cursor),
+        session: {
+          id: createSessionId(),
+          start: toLocalTimeString(cursor),
+          end: partEnd === nextMidnight ? '24:00' : toLocalTimeString(partEnd)
+        }
+      });
+      cursor = partEnd;
+    }
+  });
+
+  return result;
+};
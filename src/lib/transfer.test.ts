@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import type { DayEntry } from '../types';
+import { applyImport, parseCsv, parseJson, planImport, summarizePlan, toCsv, toJson } from './transfer';
+
+const session = (id: string, start: string, end: string) => ({ id, start, end });
+
+const entries: DayEntry[] = [
+  { date: '2026-10-12', hours: 2, note: 'Shipped the importer' },
+  { date: '2026-10-13', hours: 3, sessions: [session('a', '09:00', '11:00')] }
+];
+
+describe('parseCsv', () => {
+  it('reads its own export back', () => {
+    const withQuotes: DayEntry[] = [...entries, { date: '2026-10-14', hours: 1, note: 'Said "done",\nthen wasn\'t' }];
+    expect(parseCsv(toCsv(withQuotes))).toEqual({
+      entries: [
+        { date: '2026-10-12', hours: 2, note: 'Shipped the importer' },
+        { date: '2026-10-13', hours: 3 },
+        { date: '2026-10-14', hours: 1, note: 'Said "done",\nthen wasn\'t' }
+      ],
+      errors: []
+    });
+  });
+
+  it('rounds hours like manual entry', () => {
+    expect(parseCsv('date,hours\n2026-10-12,3.3\n').entries).toEqual([{ date: '2026-10-12', hours: 3.5 }]);
+  });
+
+  it('refuses hours that are not a number', () => {
+    expect(parseCsv('date,hours\n2026-10-12,2abc\n2026-10-13,\n2026-10-14,25\n')).toEqual({
+      entries: [],
+      errors: [
+        'Row 2: hours "2abc" is not a number',
+        'Row 3: hours "" is not a number',
+        'Row 4: hours must be between 0 and 24'
+      ]
+    });
+  });
+
+  it('reports a row with no hours and no note instead of dropping it', () => {
+    expect(parseCsv('date,hours,note\n2026-10-12,0,\n2026-10-13,0,Planning only\n')).toEqual({
+      entries: [{ date: '2026-10-13', hours: 0, note: 'Planning only' }],
+      errors: ['Row 2: no hours or note to import for 2026-10-12']
+    });
+  });
+
+  it('explains files it cannot read', () => {
+    expect(parseCsv('').errors).toEqual(['File is empty']);
+    expect(parseCsv('day,total\n2026-10-12,2\n').errors).toEqual(['CSV must have "date" and "hours" columns']);
+    expect(parseCsv('date,hours\n2026-10-12,2\n2026-10-12,3\n2099-01-01,1\n').errors).toEqual([
+      'Duplicate date 2026-10-12 ignored',
+      'Row 4: invalid or future date "2099-01-01"'
+    ]);
+  });
+});
+
+describe('parseJson', () => {
+  it('reads its own export back, sessions included', () => {
+    expect(parseJson(toJson(entries))).toEqual({ entries, errors: [] });
+  });
+
+  it('reads a bare list of entries', () => {
+    expect(parseJson('[{"date": "2026-10-12", "hours": "1.5"}]').entries).toEqual([{ date: '2026-10-12', hours: 1.5 }]);
+  });
+
+  it('refuses rows it cannot read', () => {
+    expect(parseJson(JSON.stringify([
+      null,
+      { date: '2026-10-12', hours: '2abc' },
+      { date: '2026-10-13', hours: 1, sessions: [session('a', '09:00', '11:00')] }
+    ])).errors).toEqual([
+      'Entry 1: invalid or future date "undefined"',
+      'Entry 2: hours "2abc" is not a number',
+      'Entry 3: sessions add up to more than 1h on 2026-10-13'
+    ]);
+  });
+
+  it('explains files it cannot read', () => {
+    expect(parseJson('{').errors).toEqual(['File is not valid JSON']);
+    expect(parseJson('{"schemaVersion": 99, "entries": []}').errors).toEqual(['Unsupported export version 99']);
+    expect(parseJson('{"days": []}').errors).toEqual(['No entries found in file']);
+  });
+});
+
+describe('planImport', () => {
+  const incoming: DayEntry[] = [
+    { date: '2026-10-11', hours: 1 },
+    { date: '2026-10-12', hours: 4, note: 'Wrote the docs' }
+  ];
+
+  it('adds new days and resolves existing ones by mode', () => {
+    expect(planImport(entries, incoming, 'replace').map(row => [row.action, row.resultHours])).toEqual([
+      ['add', 1],
+      ['replace', 4]
+    ]);
+    expect(planImport(entries, incoming, 'sum').map(row => [row.action, row.resultHours])).toEqual([
+      ['add', 1],
+      ['sum', 6]
+    ]);
+    expect(planImport(entries, incoming, 'skip').map(row => [row.action, row.resultHours, row.reason])).toEqual([
+      ['add', 1, undefined],
+      ['skip', 2, 'Already logged']
+    ]);
+  });
+
+  it('skips sums that pass 24 hours or overlap sessions', () => {
+    expect(planImport(entries, [{ date: '2026-10-12', hours: 23 }], 'sum')[0]).toMatchObject({
+      action: 'skip',
+      reason: 'Would exceed 24 hours'
+    });
+    const overlapping = { date: '2026-10-13', hours: 1, sessions: [session('b', '10:00', '11:00')] };
+    expect(planImport(entries, [overlapping], 'sum')[0]).toMatchObject({ action: 'skip', reason: 'Sessions overlap' });
+  });
+
+  it('sums up the change in hours', () => {
+    expect(summarizePlan(planImport(entries, incoming, 'sum'))).toEqual({
+      added: 1,
+      replaced: 0,
+      summed: 1,
+      skipped: 0,
+      hours: 5
+    });
+  });
+});
+
+describe('applyImport', () => {
+  it('keeps the note already written when the import has none', () => {
+    expect(applyImport(entries, [{ date: '2026-10-12', hours: 5 }], 'replace')).toContainEqual({
+      date: '2026-10-12',
+      hours: 5,
+      note: 'Shipped the importer'
+    });
+  });
+
+  it('adds untimed hours, combines sessions and joins notes when summing', () => {
+    const incoming: DayEntry[] = [
+      { date: '2026-10-12', hours: 1, note: 'Wrote the docs' },
+      { date: '2026-10-13', hours: 1, sessions: [session('b', '14:00', '15:00')] }
+    ];
+    expect(applyImport(entries, incoming, 'sum')).toEqual([
+      { date: '2026-10-12', hours: 3, note: 'Shipped the importer\n\nWrote the docs' },
+      { date: '2026-10-13', hours: 4, sessions: [session('a', '09:00', '11:00'), session('b', '14:00', '15:00')] }
+    ]);
+  });
+
+  it('leaves skipped days alone', () => {
+    expect(applyImport(entries, [{ date: '2026-10-12', hours: 5 }], 'skip')).toEqual(entries);
+  });
+});
@@ -0,0 +1,280 @@
+import type { DayEntry } from '../types';
+import {
+  MAX_DAILY_HOURS,
+  MAX_NOTE_LENGTH,
+  getSessionsTotal,
+  getUntimedHours,
+  isValidSession,
+  roundHours,
+  timeToMinutes,
+  upsertDay
+} from './sessions';
+import { isValidDateString, validateAndClampHours } from './validation';
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ExportFile {
+  schemaVersion: number;
+  exportedAt: string;
+  entries: DayEntry[];
+}
+
+export type ConflictMode = 'replace' | 'sum' | 'skip';
+
+export interface ParsedImport {
+  entries: DayEntry[];
+  errors: string[];
+}
+
+export interface ImportPlanRow {
+  date: string;
+  currentHours: number;
+  importedHours: number;
+  resultHours: number;
+  action: 'add' | 'replace' | 'sum' | 'skip';
+  reason?: string;
+}
+
+const sortByDate = (entries: DayEntry[]) => [...entries].sort((a, b) => a.date.localeCompare(b.date));
+
+export const toJson = (entries: DayEntry[]): string => {
+  const file: ExportFile = {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: sortByDate(entries)
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// Notes can hold commas, quotes and line breaks, so they're always quoted
+const quoteCsv = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export const toCsv = (entries: DayEntry[]): string =>
+  [
+    'date,hours,note',
+    ...sortByDate(entries).map(entry => `${entry.date},${entry.hours},${entry.note ? quoteCsv(entry.note) : ''}`)
+  ].join('\n') + '\n';
+
+// Splits CSV text into rows of cells, allowing quoted cells to span lines
+const splitCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Applies the same rules as manual entry to a single imported row
+const validateRow = (
+  date: unknown,
+  hours: unknown,
+  sessions: unknown,
+  note: unknown,
+  label: string
+): { entry?: DayEntry; error?: string } => {
+  if (typeof date !== 'string' || !isValidDateString(date)) {
+    return { error: `${label}: invalid or future date "${String(date)}"` };
+  }
+
+  // Number() rather than parseFloat() so "2abc" is refused instead of read as 2
+  const hoursText = String(hours ?? '').trim();
+  const hoursNum = hoursText === '' ? NaN : Number(hoursText);
+  if (isNaN(hoursNum)) {
+    return { error: `${label}: hours "${hoursText}" is not a number` };
+  }
+  if (hoursNum < 0 || hoursNum > MAX_DAILY_HOURS) {
+    return { error: `${label}: hours must be between 0 and 24` };
+  }
+
+  if (note !== undefined && typeof note !== 'string') {
+    return { error: `${label}: invalid note for ${date}` };
+  }
+  const trimmedNote = note?.trim();
+  if (trimmedNote && trimmedNote.length > MAX_NOTE_LENGTH) {
+    return { error: `${label}: note for ${date} is longer than ${MAX_NOTE_LENGTH} characters` };
+  }
+
+  if (sessions !== undefined) {
+    if (!Array.isArray(sessions) || !sessions.every(isValidSession)) {
+      return { error: `${label}: invalid sessions for ${date}` };
+    }
+    const sessionsTotal = getSessionsTotal({ date, hours: hoursNum, sessions });
+    if (sessionsTotal > hoursNum + 0.01) {
+      return { error: `${label}: sessions add up to more than ${hoursNum}h on ${date}` };
+    }
+    const [entry] = upsertDay([], date, roundHours(hoursNum - sessionsTotal), sessions, trimmedNote);
+    return entry ? { entry } : { error: `${label}: no hours or note to import for ${date}` };
+  }
+
+  const [entry] = upsertDay([], date, validateAndClampHours(hoursNum), [], trimmedNote);
+  // A day with no hours and no note can't be stored, so say so rather than drop the row
+  return entry ? { entry } : { error: `${label}: no hours or note to import for ${date}` };
+};
+
+const collect = (rows: { entry?: DayEntry; error?: string }[]): ParsedImport => {
+  const seen = new Set<string>();
+  const result: ParsedImport = { entries: [], errors: [] };
+  rows.forEach(({ entry, error }) => {
+    if (error) {
+      result.errors.push(error);
+    } else if (entry) {
+      if (seen.has(entry.date)) {
+        result.errors.push(`Duplicate date ${entry.date} ignored`);
+        return;
+      }
+      seen.add(entry.date);
+      result.entries.push(entry);
+    }
+  });
+  return result;
+};
+
+export const parseJson = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { entries: [], errors: ['File is not valid JSON'] };
+  }
+
+  // Accept both the versioned export file and a bare array of entries
+  let rows: unknown;
+  if (Array.isArray(data)) {
+    rows = data;
+  } else if (typeof data === 'object' && data !== null && 'entries' in data) {
+    const file = data as Partial<ExportFile>;
+    if (typeof file.schemaVersion === 'number' && file.schemaVersion > EXPORT_SCHEMA_VERSION) {
+      return { entries: [], errors: [`Unsupported export version ${file.schemaVersion}`] };
+    }
+    rows = file.entries;
+  }
+
+  if (!Array.isArray(rows)) {
+    return { entries: [], errors: ['No entries found in file'] };
+  }
+
+  return collect(rows.map((row, index) => {
+    const { date, hours, sessions, note } = (row ?? {}) as Record<string, unknown>;
+    return validateRow(date, hours, sessions, note, `Entry ${index + 1}`);
+  }));
+};
+
+export const parseCsv = (text: string): ParsedImport => {
+  const rows = splitCsv(text);
+  if (rows.length === 0) {
+    return { entries: [], errors: ['File is empty'] };
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const dateIndex = header.indexOf('date');
+  const hoursIndex = header.indexOf('hours');
+  // The note column is optional so exports from before notes still import
+  const noteIndex = header.indexOf('note');
+  if (dateIndex === -1 || hoursIndex === -1) {
+    return { entries: [], errors: ['CSV must have "date" and "hours" columns'] };
+  }
+
+  return collect(rows.slice(1).map((cells, index) => validateRow(
+    cells[dateIndex]?.trim(),
+    cells[hoursIndex]?.trim(),
+    undefined,
+    noteIndex === -1 ? undefined : cells[noteIndex] ?? '',
+    `Row ${index + 2}`
+  )));
+};
+
+// Merges two versions of the same day: untimed hours add up, sessions are combined and different notes are joined
+const sumDays = (current: DayEntry, incoming: DayEntry): DayEntry | undefined => {
+  const notes = Array.from(new Set([current.note, incoming.note].filter(Boolean)));
+  const [entry] = upsertDay(
+    [],
+    current.date,
+    roundHours(getUntimedHours(current) + getUntimedHours(incoming)),
+    [...(current.sessions ?? []), ...(incoming.sessions ?? [])],
+    notes.join('\n\n').slice(0, MAX_NOTE_LENGTH)
+  );
+  return entry;
+};
+
+export const planImport = (entries: DayEntry[], incoming: DayEntry[], mode: ConflictMode): ImportPlanRow[] =>
+  sortByDate(incoming).map(entry => {
+    const current = entries.find(existing => existing.date === entry.date);
+    const base = { date: entry.date, currentHours: current?.hours ?? 0, importedHours: entry.hours };
+
+    if (!current) {
+      return { ...base, action: 'add', resultHours: entry.hours };
+    }
+    if (mode === 'skip') {
+      return { ...base, action: 'skip', resultHours: current.hours, reason: 'Already logged' };
+    }
+    if (mode === 'replace') {
+      return { ...base, action: 'replace', resultHours: entry.hours };
+    }
+
+    const summed = sumDays(current, entry);
+    const resultHours = summed?.hours ?? 0;
+    const overlaps = (entry.sessions ?? []).some(session =>
+      (current.sessions ?? []).some(existing =>
+        timeToMinutes(session.start) < timeToMinutes(existing.end) &&
+        timeToMinutes(session.end) > timeToMinutes(existing.start)
+      )
+    );
+    if (resultHours > MAX_DAILY_HOURS || overlaps) {
+      return {
+        ...base,
+        action: 'skip',
+        resultHours: current.hours,
+        reason: overlaps ? 'Sessions overlap' : 'Would exceed 24 hours'
+      };
+    }
+    return { ...base, action: 'sum', resultHours };
+  });
+
+export const applyImport = (entries: DayEntry[], incoming: DayEntry[], mode: ConflictMode): DayEntry[] => {
+  const plan = planImport(entries, incoming, mode);
+  return plan.reduce((result, row) => {
+    const entry = incoming.find(candidate => candidate.date === row.date);
+    if (!entry || row.action === 'skip') return result;
+
+    const current = result.find(existing => existing.date === row.date);
+    const next = row.action === 'sum' && current ? sumDays(current, entry) : entry;
+    if (!next) return result;
+    // A day imported without a note keeps the one already written
+    return upsertDay(result, next.date, getUntimedHours(next), next.sessions ?? [], next.note);
+  }, entries);
+};
+
+export const summarizePlan = (plan: ImportPlanRow[]) => ({
+  added: plan.filter(row => row.action === 'add').length,
+  replaced: plan.filter(row => row.action === 'replace').length,
+  summed: plan.filter(row => row.action === 'sum').length,
+  skipped: plan.filter(row => row.action === 'skip').length,
+  hours: roundHours(plan.reduce((sum, row) => sum + row.resultHours - row.currentHours, 0))
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { isValidDate, isValidDateString, validateAndClampHours } from './validation';
+
+describe('isValidDate', () => {
+  it('allows today and refuses tomorrow', () => {
+    expect(isValidDate('2026-10-19', '2026-10-19')).toBe(true);
+    expect(isValidDate('2026-10-20', '2026-10-19')).toBe(false);
+  });
+
+  it('handles the turn of the year', () => {
+    expect(isValidDate('2025-12-31', '2026-01-01')).toBe(true);
+    expect(isValidDate('2026-01-01', '2026-01-01')).toBe(true);
+    expect(isValidDate('2026-01-01', '2025-12-31')).toBe(false);
+  });
+
+  it('allows any earlier year', () => {
+    expect(isValidDate('2019-06-15', '2026-10-19')).toBe(true);
+  });
+});
+
+describe('isValidDateString', () => {
+  it.each(['2026-02-30', '2026-13-01', '2026-1-01', 'not a date'])('rejects %s', value => {
+    expect(isValidDateString(value)).toBe(false);
+  });
+
+  it('accepts a leap day', () => {
+    expect(isValidDateString('2024-02-29')).toBe(true);
+  });
+});
+
+describe('validateAndClampHours', () => {
+  it.each([
+    [1.2, 1],
+    [1.3, 1.5],
+    [-2, 0],
+    [30, 24]
+  ])('turns %s into %s', (hours, expected) => {
+    expect(validateAndClampHours(hours)).toBe(expected);
+  });
+});
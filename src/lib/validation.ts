@@ -0,0 +1,24 @@
+import { MAX_DAILY_HOURS } from './sessions';
+import { DateKey, getToday, isDateKey } from './dates';
+
+// A day can be logged as long as it isn't after today on the local calendar
+export const isValidDate = (date: DateKey, today: DateKey = getToday()): boolean => date <= today;
+
+// Rounds to the nearest half hour and keeps the value within a single day
+export const validateAndClampHours = (hours: number): number => {
+  return Math.min(Math.max(0, Math.round(hours * 2) / 2), MAX_DAILY_HOURS);
+};
+
+// The message shown for hours that can't be logged as a day's total, or null when they can
+export const getHoursError = (hours: number): string | null => {
+  if (isNaN(hours)) {
+    return 'Please enter a valid number of hours';
+  }
+  if (hours < 0 || hours > MAX_DAILY_HOURS || (validateAndClampHours(hours) === 0 && hours !== 0)) {
+    return 'Hours must be between 0 and 24';
+  }
+  return null;
+};
+
+// Checks a stored "YYYY-MM-DD" key names a real calendar day that can be logged
+export const isValidDateString = (value: string): boolean => isDateKey(value) && isValidDate(value);
@@ -0,0 +1,45 @@
+import type { DayEntry } from '../types';
+import { roundHours } from './sessions';
+import { addDays, daysBetween, getWeekday, getYear } from './dates';
+
+export interface IsoWeek {
+  // The ISO week-numbering year, which differs from the calendar year around New Year
+  year: number;
+  week: number;
+}
+
+export interface WeekDay {
+  date: string;
+  hours: number;
+}
+
+export interface WeekSummary {
+  days: WeekDay[];
+  total: number;
+}
+
+// Monday of the ISO week containing the date
+export const getIsoWeekStart = (date: string): string => addDays(date, -((getWeekday(date) + 6) % 7));
+
+// An ISO week belongs to the year its Thursday falls in
+export const getIsoWeek = (date: string): IsoWeek => {
+  const thursday = addDays(getIsoWeekStart(date), 3);
+  const year = getYear(thursday);
+  return { year, week: Math.floor(daysBetween(`${year}-01-01`, thursday) / 7) + 1 };
+};
+
+// Monday to Sunday of the ISO week containing the date
+export const getIsoWeekDates = (date: string): string[] => {
+  const start = getIsoWeekStart(date);
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+};
+
+export const shiftWeek = (date: string, weeks: number): string => addDays(date, weeks * 7);
+
+export const getWeekSummary = (entries: DayEntry[], date: string): WeekSummary => {
+  const days = getIsoWeekDates(date).map(day => ({
+    date: day,
+    hours: entries.find(entry => entry.date === day)?.hours ?? 0
+  }));
+  return { days, total: roundHours(days.reduce((sum, day) => sum + day.hours, 0)) };
+};
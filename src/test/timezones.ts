@@ -0,0 +1,43 @@
+import { afterAll, beforeAll, describe, vi } from 'vitest';
+
+export interface TimezoneCase {
+  tz: string;
+  // A day the clocks go forward an hour, so it only lasts 23 hours; null where they never change
+  springForward: string | null;
+  // The day the clocks go back, and the local hour that happens twice on it; null where they never change
+  fallBack: { date: string; repeatedHour: number } | null;
+  // The local day on which 2026-01-01T05:00Z falls
+  newYearMorningUtc: string;
+}
+
+export const TIMEZONES: TimezoneCase[] = [
+  {
+    tz: 'America/Los_Angeles',
+    springForward: '2026-03-08',
+    fallBack: { date: '2026-11-01', repeatedHour: 1 },
+    newYearMorningUtc: '2025-12-31'
+  },
+  { tz: 'UTC', springForward: null, fallBack: null, newYearMorningUtc: '2026-01-01' },
+  {
+    tz: 'Pacific/Auckland',
+    springForward: '2026-09-27',
+    fallBack: { date: '2026-04-05', repeatedHour: 2 },
+    newYearMorningUtc: '2026-01-01'
+  }
+];
+
+/**
+ * Runs a suite once in each timezone above. Node picks up a change to TZ
+ * straight away, so Dates made inside the tests use that zone's local time;
+ * make them in `it`, not in the describe body, which runs before the switch.
+ */
+export const describeInTimezones = (name: string, suite: (zone: TimezoneCase) => void) =>
+  describe.each(TIMEZONES)(`${name} in $tz`, zone => {
+    beforeAll(() => {
+      vi.stubEnv('TZ', zone.tz);
+    });
+    afterAll(() => {
+      vi.unstubAllEnvs();
+    });
+    suite(zone);
+  });
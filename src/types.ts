@@ -0,0 +1,17 @@
+export interface WorkSession {
+  id: string;
+  // Local wall-clock times in 24h "HH:MM" format; "24:00" marks a session running to midnight
+  start: string;
+  end: string;
+  project?: string;
+  note?: string;
+}
+
+export interface DayEntry {
+  date: string;
+  // Daily total: hours logged without times plus the duration of every session
+  hours: number;
+  sessions?: WorkSession[];
+  // Markdown journal for the day; a day can hold a note before any hours are logged
+  note?: string;
+}
@@ -0,0 +1,109 @@
+/// <reference lib="webworker" />
+// Built by the service-worker plugin in vite.config.ts, which replaces the two
+// placeholders below with the build's file list and a version derived from it.
+// This file must not import anything so it can be registered as a classic worker.
+
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __CACHE_VERSION__: string;
+
+const worker = self as unknown as ServiceWorkerGlobalScope;
+
+const PRECACHE_URLS = __PRECACHE_MANIFEST__;
+const CACHE_PREFIX = 'did-you-code-';
+const CACHE_NAME = `${CACHE_PREFIX}${__CACHE_VERSION__}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime`;
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+worker.addEventListener('install', event => {
+  // The new version waits until the page asks it to take over, so the page can
+  // save its data before it reloads
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+worker.addEventListener('activate', event => {
+  // Only caches this worker owns are cleared. Entries live in localStorage or
+  // IndexedDB, which the worker never touches, so updates can't lose them.
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME && key !== RUNTIME_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => worker.clients.claim())
+  );
+});
+
+worker.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    worker.skipWaiting();
+  }
+});
+
+// Reminder notifications carry "quick-add:<hours>" actions and the day they were
+// shown for, handled by an open window when there is one and otherwise passed to
+// a new one in the URL, where the page asks before logging
+const handleNotificationClick = async (action: string, data: unknown) => {
+  const match = /^quick-add:(\d+(?:\.\d+)?)$/.exec(action);
+  const date = (data as { date?: unknown } | null)?.date;
+  const quickAdd = match && typeof date === 'string' ? { hours: parseFloat(match[1]), date } : null;
+
+  const windows = await worker.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const client = windows.find(windowClient => windowClient.focused) ?? windows[0];
+  if (client) {
+    if (quickAdd) {
+      client.postMessage({ type: 'QUICK_ADD', ...quickAdd });
+    }
+    await client.focus();
+    return;
+  }
+  await worker.clients.openWindow(
+    quickAdd ? `/?${new URLSearchParams({ quickAdd: String(quickAdd.hours), date: quickAdd.date })}` : '/'
+  );
+};
+
+worker.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(handleNotificationClick(event.action, event.notification.data));
+});
+
+const networkFirst = async (request: Request, fallbackUrl: string) => {
+  try {
+    const response = await fetch(request);
+    // An error page from the server would otherwise replace the working app shell
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(fallbackUrl, response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(fallbackUrl);
+    return cached ?? Response.error();
+  }
+};
+
+const cacheFirst = async (request: Request, cacheName: string) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+worker.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (request.mode === 'navigate' && url.origin === worker.location.origin) {
+    event.respondWith(networkFirst(request, '/'));
+  } else if (url.origin === worker.location.origin) {
+    event.respondWith(cacheFirst(request, CACHE_NAME));
+  } else if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, RUNTIME_CACHE));
+  }
+});
@@ -1,7 +1,68 @@
-import { defineConfig } from 'vite';
+/// <reference types="vitest/config" />
+import { createHash } from 'node:crypto';
+import { readdirSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-// https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+const listFiles = (dir: string): string[] =>
+  readdirSync(dir).flatMap(name => {
+    const path = join(dir, name);
+    return statSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+
+// Bundles sw/service-worker.ts to /sw.js and injects the list of files to precache.
+// The cache version is a hash of that list, so every deploy with changed assets
+// ships a byte-different worker and triggers an update.
+const serviceWorker = (): Plugin => ({
+  name: 'service-worker',
+  // The sync server is built with --ssr and has no service worker
+  apply: (_, { command, isSsrBuild }) => command === 'build' && !isSsrBuild,
+  config: () => ({
+    build: {
+      rollupOptions: {
+        input: {
+          main: 'index.html',
+          sw: 'sw/service-worker.ts'
+        },
+        output: {
+          entryFileNames: chunk => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js')
+        }
+      }
+    }
+  }),
+  generateBundle(_, bundle) {
+    const worker = bundle['sw.js'];
+    if (!worker || worker.type !== 'chunk') return;
+
+    const publicFiles = listFiles('public').map(path => relative('public', path).split('\\').join('/'));
+    const urls = [
+      '/',
+      ...Object.keys(bundle).filter(name => name !== 'sw.js' && !name.endsWith('.map') && name !== 'index.html'),
+      ...publicFiles
+    ].map(name => (name.startsWith('/') ? name : `/${name}`));
+
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    worker.code = worker.code
+      .replace(/\b__PRECACHE_MANIFEST__\b/, () => JSON.stringify(urls))
+      .replace(/\b__CACHE_VERSION__\b/, () => JSON.stringify(version));
+  }
 });
+
+// https://vitejs.dev/config/
+export default defineConfig(({ isSsrBuild }) => ({
+  plugins: [react(), serviceWorker()],
+  // `npm run build:server` and `npm run build:cli` bundle the sync server and the CLI for Node instead of the app
+  ...(isSsrBuild && {
+    build: {
+      target: 'node18',
+      copyPublicDir: false,
+      rollupOptions: { output: { banner: '#!/usr/bin/env node' } }
+    }
+  }),
+  test: {
+    // Components render into jsdom; everything else is plain Node
+    environmentMatchGlobs: [['src/components/**', 'jsdom']],
+    setupFiles: ['src/test/setup.ts']
+  }
+}));